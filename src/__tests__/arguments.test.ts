@@ -0,0 +1,85 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import * as vscode from "vscode";
+import { DocumentManager } from "../utils/document";
+import { WorkspaceIndex } from "../analysis/workspace";
+import { createDocument, generateDiagnostics } from "./helpers";
+
+const uri = vscode.Uri.file("/workspace/main.planet");
+const ARGUMENT_RULES = ["argument-count", "argument-type"];
+
+describe("call arguments", () => {
+    let index: WorkspaceIndex;
+
+    const diagnose = (lines: string[]) =>
+        generateDiagnostics(index, createDocument(uri, lines.join("\n")))
+            .filter(diagnostic =>
+                ARGUMENT_RULES.includes(diagnostic.code as string)
+            )
+            .map(diagnostic => [
+                diagnostic.code,
+                diagnostic.range.start.line,
+                diagnostic.range.start.character,
+                diagnostic.message,
+            ]);
+
+    beforeEach(() => {
+        index = new WorkspaceIndex(new DocumentManager());
+    });
+
+    it("reports too many and too few arguments", () => {
+        expect(
+            diagnose(['var a = get_score("@s")', 'var b = type(1, "x")'])
+        ).toEqual([
+            ["argument-count", 0, 22, "diagnostic.expectedArguments"],
+            ["argument-count", 1, 16, "diagnostic.expectedArguments"],
+        ]);
+    });
+
+    it("only reports the count when a call has the wrong number of arguments", () => {
+        expect(diagnose(["print(len(1, 2))"])).toEqual([
+            ["argument-count", 0, 13, "diagnostic.expectedArguments"],
+        ]);
+    });
+
+    it("requires only the leading parameters of variadic builtins", () => {
+        expect(diagnose(['print(1, "a", [1, 2])', "print()"])).toEqual([
+            ["argument-count", 1, 6, "diagnostic.expectedAtLeast"],
+        ]);
+    });
+
+    it("checks argument types against each accepted type", () => {
+        expect(
+            diagnose([
+                "var a = len([1, 2])",
+                'var b = len("ab")',
+                "var c = len(3)",
+                "var d = round(1.5)",
+                "var e = round(1)",
+                'var f = get_score("@s", [1])',
+            ])
+        ).toEqual([
+            ["argument-type", 2, 12, "diagnostic.argumentType"],
+            ["argument-type", 4, 14, "diagnostic.argumentType"],
+            ["argument-type", 5, 24, "diagnostic.argumentType"],
+        ]);
+    });
+
+    it("points user function count errors at the declaration", () => {
+        const [diagnostic] = generateDiagnostics(
+            index,
+            createDocument(
+                uri,
+                ["def f(var a){", "    print(a)", "}", "f(1, 2)"].join("\n")
+            )
+        );
+
+        expect(diagnostic.code).toBe("argument-count");
+        expect(
+            diagnostic.relatedInformation!.map(({ location, message }) => [
+                location.range.start.line,
+                location.range.start.character,
+                message,
+            ])
+        ).toEqual([[0, 4, "diagnostic.functionDeclaredHere"]]);
+    });
+});
@@ -0,0 +1,191 @@
+import * as path from "path";
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import * as vscode from "vscode";
+import { DocumentManager } from "../utils/document";
+import { WorkspaceIndex } from "../analysis/workspace";
+import { ReferenceFinder } from "../analysis/references";
+import { CodeActionProvider } from "../providers/codeActions";
+import { getSpyglassManager } from "../minecraft/spyglass";
+import { createDocument, generateDiagnostics, TempWorkspace } from "./helpers";
+
+const token = {} as vscode.CancellationToken;
+
+describe("quick fixes", () => {
+    let workspace: TempWorkspace;
+    let index: WorkspaceIndex;
+    let provider: CodeActionProvider;
+
+    const open = (name: string, lines: string[]): vscode.TextDocument => {
+        const text = lines.join("\n");
+        const document = createDocument(workspace.write(name, text), text);
+        index.update(document);
+        return document;
+    };
+
+    const fix = (document: vscode.TextDocument, rule: string) => {
+        const diagnostics = generateDiagnostics(index, document).filter(
+            diagnostic =>
+                diagnostic.code === rule ||
+                (typeof diagnostic.code === "object" &&
+                    diagnostic.code.value === rule)
+        );
+        expect(diagnostics).not.toHaveLength(0);
+
+        const actions = provider.provideCodeActions(
+            document,
+            diagnostics[0].range,
+            { diagnostics } as unknown as vscode.CodeActionContext,
+            token
+        );
+
+        return actions.map(action => ({
+            title: action.title,
+            preferred: action.isPreferred,
+            edits: action
+                .edit!.entries()
+                .flatMap(([uri, edits]) =>
+                    edits.map(({ range, newText }) => [
+                        uri.path.substring(uri.path.lastIndexOf("/") + 1),
+                        range.start.line,
+                        range.start.character,
+                        range.end.line,
+                        range.end.character,
+                        newText,
+                    ])
+                ),
+        }));
+    };
+
+    beforeAll(async () => {
+        const spyglass = getSpyglassManager();
+        spyglass.setCacheDir(path.join(__dirname, "fixtures"));
+        await spyglass.initialize();
+    });
+
+    beforeEach(() => {
+        workspace = new TempWorkspace();
+        const documentManager = new DocumentManager();
+        index = new WorkspaceIndex(documentManager);
+        provider = new CodeActionProvider(
+            documentManager,
+            index,
+            new ReferenceFinder(index)
+        );
+    });
+
+    afterEach(() => {
+        workspace.dispose();
+    });
+
+    it("wraps a braceless if body", () => {
+        const document = open("main.planet", [
+            "def load(){",
+            "    var x = 1",
+            "    if(x == 1) x = 2",
+            "}",
+        ]);
+
+        expect(fix(document, "if-no-braces")).toEqual([
+            {
+                title: "codeAction.wrapInBraces",
+                preferred: true,
+                edits: [
+                    ["main.planet", 2, 15, 2, 20, "{\n        x = 2\n    }"],
+                ],
+            },
+        ]);
+    });
+
+    it("lowercases a function together with its references", () => {
+        const lib = open("lib.planet", ["def Greet(){", "    /say hi", "}"]);
+        open("main.planet", ["import lib", "lib.Greet()"]);
+
+        expect(fix(lib, "uppercase-function")).toEqual([
+            {
+                title: "codeAction.lowercaseFunction",
+                preferred: true,
+                edits: [
+                    ["lib.planet", 0, 4, 0, 9, "greet"],
+                    ["main.planet", 1, 4, 1, 9, "greet"],
+                ],
+            },
+        ]);
+    });
+
+    it("declares an undefined variable above its use", () => {
+        const document = open("main.planet", [
+            "def load(){",
+            "    count = 1",
+            "}",
+        ]);
+
+        expect(fix(document, "undefined-identifier")).toEqual([
+            {
+                title: "codeAction.declareVariable",
+                preferred: false,
+                edits: [["main.planet", 1, 0, 1, 0, "    var count\n"]],
+            },
+        ]);
+    });
+
+    it("imports a member from a sibling module after the last import", () => {
+        open("lib.planet", ["var unused = 0"]);
+        open("util.planet", ["var limit = 3"]);
+        const document = open("main.planet", ["import lib", "var a = limit"]);
+
+        expect(
+            fix(document, "undefined-identifier").filter(
+                action => action.title === "codeAction.importMember"
+            )
+        ).toEqual([
+            {
+                title: "codeAction.importMember",
+                preferred: false,
+                edits: [
+                    ["main.planet", 1, 0, 1, 0, "import util\n"],
+                    ["main.planet", 1, 8, 1, 13, "util.limit"],
+                ],
+            },
+        ]);
+    });
+
+    it("imports a module used by name", () => {
+        open("util.planet", ["var limit = 3"]);
+        const document = open("main.planet", ["var b = util.limit"]);
+
+        expect(
+            fix(document, "undefined-identifier").filter(
+                action => action.title === "codeAction.addImport"
+            )
+        ).toEqual([
+            {
+                title: "codeAction.addImport",
+                preferred: false,
+                edits: [["main.planet", 0, 0, 0, 0, "import util\n"]],
+            },
+        ]);
+    });
+
+    it("suggests registry entries for an unknown id", () => {
+        const document = open("main.planet", [
+            "def load(){",
+            "    /give @s minecraft:diamnd 1",
+            "}",
+        ]);
+
+        const [diagnostic] = generateDiagnostics(index, document);
+        expect(diagnostic.code).toEqual({
+            value: "mc-command",
+            target: vscode.Uri.parse(
+                "https://minecraft.wiki/w/Java_Edition_data_values"
+            ),
+        });
+        expect(fix(document, "mc-command")).toEqual([
+            {
+                title: "codeAction.replaceWith",
+                preferred: true,
+                edits: [["main.planet", 1, 12, 1, 28, "minecraft:diamond"]],
+            },
+        ]);
+    });
+});
@@ -0,0 +1,302 @@
+import { describe, expect, it } from "vitest";
+import * as vscode from "vscode";
+import { DocumentManager } from "../utils/document";
+import { WorkspaceIndex } from "../analysis/workspace";
+import { DiagnosticGenerator } from "../analysis/diagnostics";
+
+function diagnose(source: string) {
+    const documentManager = new DocumentManager();
+    const workspaceIndex = new WorkspaceIndex(documentManager);
+    const uri = vscode.Uri.file("/workspace/main.planet");
+    const document = {
+        uri,
+        version: 1,
+        getText: () => source,
+    } as unknown as vscode.TextDocument;
+
+    const parseResult = documentManager.parse(document);
+    return new DiagnosticGenerator(workspaceIndex).generate(
+        parseResult.program,
+        parseResult.errors,
+        uri,
+        parseResult.comments
+    );
+}
+
+function findRule(source: string, rule: string) {
+    return diagnose(source).filter(diagnostic => diagnostic.code === rule);
+}
+
+describe("control flow diagnostics", () => {
+    describe("inconsistent-return", () => {
+        it("reports a function that falls through after returning a value", () => {
+            const [diagnostic, ...rest] = findRule(
+                [
+                    "def pick(var flag){",
+                    "    if(flag){",
+                    "        return 1",
+                    "    }",
+                    "}",
+                    "pick(true)",
+                ].join("\n"),
+                "inconsistent-return"
+            );
+
+            expect(rest).toEqual([]);
+            expect(diagnostic.range.start).toMatchObject({
+                line: 0,
+                character: 4,
+            });
+            expect(
+                diagnostic.relatedInformation?.map(
+                    info => info.location.range.start.line
+                )
+            ).toEqual([4]);
+        });
+
+        it("reports a bare return next to a value return", () => {
+            const [diagnostic] = findRule(
+                [
+                    "def pick(var flag){",
+                    "    if(flag){",
+                    "        return",
+                    "    }",
+                    "    return 1",
+                    "}",
+                    "pick(true)",
+                ].join("\n"),
+                "inconsistent-return"
+            );
+
+            expect(
+                diagnostic.relatedInformation?.map(
+                    info => info.location.range.start.line
+                )
+            ).toEqual([2]);
+        });
+
+        it("accepts a function that returns a value on every path", () => {
+            const diagnostics = findRule(
+                [
+                    "def pick(var flag){",
+                    "    if(flag){",
+                    "        return 1",
+                    "    } else {",
+                    "        return 2",
+                    "    }",
+                    "}",
+                    "pick(true)",
+                ].join("\n"),
+                "inconsistent-return"
+            );
+
+            expect(diagnostics).toEqual([]);
+        });
+
+        it("treats a return inside execute as an early exit", () => {
+            const diagnostics = findRule(
+                [
+                    "def tick_entity(){",
+                    "    execute(if entity @s[type=player]){",
+                    "        return 0",
+                    "    }",
+                    "    var x = 1",
+                    "}",
+                    "tick_entity()",
+                ].join("\n"),
+                "inconsistent-return"
+            );
+
+            expect(diagnostics).toEqual([]);
+        });
+    });
+
+    describe("unreachable-code", () => {
+        it("reports statements after a return", () => {
+            const [diagnostic, ...rest] = findRule(
+                [
+                    "def f(){",
+                    "    return",
+                    "    var a = 1",
+                    "    var b = 2",
+                    "}",
+                    "f()",
+                ].join("\n"),
+                "unreachable-code"
+            );
+
+            expect(rest).toEqual([]);
+            expect(diagnostic.range).toMatchObject({
+                start: { line: 2, character: 4 },
+                end: { line: 3, character: 13 },
+            });
+            expect(diagnostic.tags).toEqual([vscode.DiagnosticTag.Unnecessary]);
+        });
+
+        it("reports statements after a break", () => {
+            const [diagnostic] = findRule(
+                [
+                    "var i = 0",
+                    "while(i < 3){",
+                    "    break",
+                    "    i = i + 1",
+                    "}",
+                ].join("\n"),
+                "unreachable-code"
+            );
+
+            expect(diagnostic.range.start).toMatchObject({
+                line: 3,
+                character: 4,
+            });
+        });
+
+        it("does not report code after a conditional return", () => {
+            const diagnostics = findRule(
+                [
+                    "def f(var flag){",
+                    "    if(flag){",
+                    "        return",
+                    "    }",
+                    "    var a = 1",
+                    "}",
+                    "f(true)",
+                ].join("\n"),
+                "unreachable-code"
+            );
+
+            expect(diagnostics).toEqual([]);
+        });
+    });
+
+    describe("infinite-loop", () => {
+        it("reports while(true) without a break", () => {
+            const [diagnostic, ...rest] = findRule(
+                ["var i = 0", "while(true){", "    i = i + 1", "}"].join("\n"),
+                "infinite-loop"
+            );
+
+            expect(rest).toEqual([]);
+            expect(diagnostic.range).toMatchObject({
+                start: { line: 1, character: 6 },
+                end: { line: 1, character: 10 },
+            });
+        });
+
+        it("accepts while(true) with a break", () => {
+            const source = [
+                "var i = 0",
+                "while(true){",
+                "    i = i + 1",
+                "    if(i > 3){",
+                "        break",
+                "    }",
+                "}",
+            ].join("\n");
+
+            expect(findRule(source, "infinite-loop")).toEqual([]);
+            expect(findRule(source, "unreachable-code")).toEqual([]);
+        });
+
+        it("accepts while(true) left through a return", () => {
+            const source = [
+                "def find(){",
+                "    var i = 0",
+                "    while(true){",
+                "        i = i + 1",
+                "        if(i > 3){",
+                "            return i",
+                "        }",
+                "    }",
+                "}",
+                "find()",
+            ].join("\n");
+
+            expect(findRule(source, "infinite-loop")).toEqual([]);
+        });
+
+        it("ignores a return that can never run", () => {
+            const diagnostics = findRule(
+                [
+                    "def spin(){",
+                    "    while(true){",
+                    "        while(true){",
+                    "            var a = 1",
+                    "        }",
+                    "        return",
+                    "    }",
+                    "}",
+                    "spin()",
+                ].join("\n"),
+                "infinite-loop"
+            );
+
+            expect(
+                diagnostics.map(diagnostic => diagnostic.range.start.line)
+            ).toEqual([2, 1]);
+        });
+
+        it("marks code after an infinite loop as unreachable", () => {
+            const [diagnostic] = findRule(
+                ["while(true){", "    var a = 1", "}", "var b = 2"].join("\n"),
+                "unreachable-code"
+            );
+
+            expect(diagnostic.range.start).toMatchObject({
+                line: 3,
+                character: 0,
+            });
+        });
+    });
+
+    describe("constant-condition", () => {
+        it("reports literal conditions in if and else if", () => {
+            const diagnostics = findRule(
+                [
+                    "var a = 1",
+                    "if(false){",
+                    "    a = 2",
+                    "} else if(1){",
+                    "    a = 3",
+                    "}",
+                ].join("\n"),
+                "constant-condition"
+            );
+
+            expect(
+                diagnostics.map(diagnostic => [
+                    diagnostic.range.start.line,
+                    diagnostic.message,
+                ])
+            ).toEqual([
+                [1, "diagnostic.constantCondition"],
+                [3, "diagnostic.constantCondition"],
+            ]);
+        });
+
+        it("reports a constant false while condition but not while(true)", () => {
+            const diagnostics = findRule(
+                [
+                    "while(!true){",
+                    "    var a = 1",
+                    "}",
+                    "while(true){",
+                    "    break",
+                    "}",
+                ].join("\n"),
+                "constant-condition"
+            );
+
+            expect(diagnostics.map(d => d.range.start.line)).toEqual([0]);
+        });
+
+        it("ignores conditions that depend on variables", () => {
+            const diagnostics = findRule(
+                ["var a = 1", "if(a == 1){", "    a = 2", "}"].join("\n"),
+                "constant-condition"
+            );
+
+            expect(diagnostics).toEqual([]);
+        });
+    });
+});
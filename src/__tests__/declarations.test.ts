@@ -0,0 +1,130 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import * as vscode from "vscode";
+import { DocumentManager } from "../utils/document";
+import { WorkspaceIndex } from "../analysis/workspace";
+import { createDocument, generateDiagnostics } from "./helpers";
+
+const uri = vscode.Uri.file("/workspace/main.planet");
+const CONFLICT_RULES = ["redeclaration", "shadowed-declaration"];
+
+describe("declaration conflicts", () => {
+    let index: WorkspaceIndex;
+
+    const diagnose = (lines: string[]) =>
+        generateDiagnostics(index, createDocument(uri, lines.join("\n")))
+            .filter(diagnostic =>
+                CONFLICT_RULES.includes(diagnostic.code as string)
+            )
+            .map(diagnostic => [
+                diagnostic.code,
+                diagnostic.range.start.line,
+                diagnostic.range.start.character,
+                diagnostic.message,
+                diagnostic.relatedInformation?.map(
+                    info => info.location.range.start.line
+                ),
+            ]);
+
+    beforeEach(() => {
+        index = new WorkspaceIndex(new DocumentManager());
+    });
+
+    it("reports a second declaration in the same scope", () => {
+        expect(
+            diagnose([
+                "var count = 1",
+                "var count = 2",
+                "def load(){",
+                "}",
+                "def load(){",
+                "}",
+            ])
+        ).toEqual([
+            ["redeclaration", 1, 4, "diagnostic.redeclaration", [0]],
+            ["redeclaration", 4, 4, "diagnostic.redeclaration", [2]],
+        ]);
+    });
+
+    it("treats a body variable named like a parameter as a redeclaration", () => {
+        expect(
+            diagnose([
+                "def f(var value){",
+                "    var value = 2",
+                "    print(value)",
+                "}",
+                "f(1)",
+            ])
+        ).toEqual([["redeclaration", 1, 8, "diagnostic.redeclaration", [0]]]);
+    });
+
+    it("warns when a local shadows a global", () => {
+        expect(
+            diagnose([
+                "var count = 1",
+                "def load(){",
+                "    var count = 2",
+                "    print(count)",
+                "}",
+            ])
+        ).toEqual([
+            [
+                "shadowed-declaration",
+                2,
+                8,
+                "diagnostic.shadowedDeclaration",
+                [0],
+            ],
+        ]);
+    });
+
+    it("warns when a block variable shadows a parameter", () => {
+        expect(
+            diagnose([
+                "def f(var value){",
+                "    if(value){",
+                "        var value = 2",
+                "        print(value)",
+                "    }",
+                "}",
+                "f(1)",
+            ])
+        ).toEqual([
+            [
+                "shadowed-declaration",
+                2,
+                12,
+                "diagnostic.shadowedDeclaration",
+                [0],
+            ],
+        ]);
+    });
+
+    it("warns when a variable shadows a builtin", () => {
+        expect(diagnose(["var len = 1", "print(len)"])).toEqual([
+            [
+                "shadowed-declaration",
+                0,
+                4,
+                "diagnostic.shadowedBuiltin",
+                undefined,
+            ],
+        ]);
+    });
+
+    it("gives sibling blocks separate scopes", () => {
+        expect(
+            diagnose([
+                "def f(var flag){",
+                "    if(flag){",
+                "        var value = 1",
+                "        print(value)",
+                "    } else {",
+                "        var value = 2",
+                "        print(value)",
+                "    }",
+                "}",
+                "f(1)",
+            ])
+        ).toEqual([]);
+    });
+});
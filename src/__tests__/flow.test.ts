@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { DocumentManager } from "../utils/document";
+
+// typeAt probes an identifier indented by four spaces; symbolTypeAt asks for
+// the type a symbol has at the start of a line.
+function analyze(lines: string[]) {
+    const { scope, types } = new DocumentManager().parseText(lines.join("\n"));
+    const body = scope.children[0];
+
+    return {
+        typeAt: (line: number) => types.typeAt({ line, character: 4 }),
+        symbolTypeAt: (name: string, line: number) =>
+            types.symbolTypeAt(body.resolve(name)!, { line, character: 0 }),
+    };
+}
+
+describe("flow-sensitive types", () => {
+    it("narrows a variable to its latest assignment", () => {
+        const flow = analyze([
+            "def load(){",
+            "    var x = 1",
+            "    x",
+            '    x = "one"',
+            "    x",
+            "}",
+        ]);
+
+        expect(flow.typeAt(2)).toBe("int");
+        expect(flow.typeAt(4)).toBe("string");
+        expect(flow.symbolTypeAt("x", 3)).toBe("int");
+        expect(flow.symbolTypeAt("x", 5)).toBe("string");
+    });
+
+    it("merges the branches of an if/else", () => {
+        const flow = analyze([
+            "def f(var flag){",
+            "    var x = 1",
+            "    if(flag){",
+            '        x = "one"',
+            "    } else {",
+            "        x = [1]",
+            "    }",
+            "    x",
+            "}",
+        ]);
+
+        expect(flow.typeAt(7)).toBe("string|array<int>");
+    });
+
+    it("keeps the incoming type when an if has no else", () => {
+        const flow = analyze([
+            "def f(var flag){",
+            "    var x = 1",
+            "    if(flag){",
+            '        x = "one"',
+            "    }",
+            "    x",
+            "}",
+        ]);
+
+        expect(flow.typeAt(5)).toBe("int|string");
+    });
+
+    it("ignores branches that return", () => {
+        const flow = analyze([
+            "def f(var flag){",
+            "    var x = 1",
+            "    if(flag){",
+            '        x = "one"',
+            "        return",
+            "    }",
+            "    x",
+            "}",
+        ]);
+
+        expect(flow.typeAt(6)).toBe("int");
+    });
+
+    it("merges assignments made in a while body", () => {
+        const flow = analyze([
+            "def f(var flag){",
+            "    var x = 1",
+            "    while(flag){",
+            "        x",
+            '        x = "one"',
+            "    }",
+            "    x",
+            "}",
+        ]);
+
+        expect(flow.symbolTypeAt("x", 4)).toBe("int|string");
+        expect(flow.typeAt(6)).toBe("int|string");
+    });
+
+    it("keeps the incoming type after an execute body", () => {
+        const flow = analyze([
+            "def load(){",
+            "    var x = 1",
+            "    execute(as @a){",
+            '        x = "one"',
+            "    }",
+            "    x",
+            "}",
+        ]);
+
+        expect(flow.typeAt(5)).toBe("int|string");
+    });
+});
@@ -0,0 +1,278 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import * as vscode from "vscode";
+import { DocumentManager } from "../utils/document";
+import { FormattingProvider } from "../providers/formatting";
+import { createDocument } from "./helpers";
+import { configuration } from "./vscode";
+
+const uri = vscode.Uri.file("/workspace/main.planet");
+const token = {} as vscode.CancellationToken;
+const options = { insertSpaces: true, tabSize: 4 } as vscode.FormattingOptions;
+
+function applyEdits(
+    document: vscode.TextDocument,
+    edits: vscode.TextEdit[]
+): string {
+    let text = document.getText();
+    const sorted = [...edits].sort(
+        (a, b) =>
+            document.offsetAt(b.range.start) - document.offsetAt(a.range.start)
+    );
+    for (const edit of sorted) {
+        text =
+            text.substring(0, document.offsetAt(edit.range.start)) +
+            edit.newText +
+            text.substring(document.offsetAt(edit.range.end));
+    }
+    return text;
+}
+
+describe("formatting", () => {
+    let provider: FormattingProvider;
+    let version = 0;
+
+    // Each call is a new version so the document manager parses it again.
+    const open = (lines: string[]) =>
+        createDocument(uri, lines.join("\n"), ++version);
+
+    const format = (lines: string[]) => {
+        const document = open(lines);
+        return applyEdits(
+            document,
+            provider.provideDocumentFormattingEdits(document, options, token)
+        ).split("\n");
+    };
+
+    beforeEach(() => {
+        provider = new FormattingProvider(new DocumentManager());
+    });
+
+    afterEach(() => {
+        configuration.clear();
+    });
+
+    it("re-indents nested blocks", () => {
+        expect(
+            format([
+                "def load(){",
+                "var x = 1",
+                "      if(x == 1){",
+                "  print(x)",
+                "            }",
+                "}",
+            ])
+        ).toEqual([
+            "def load() {",
+            "    var x = 1",
+            "    if (x == 1) {",
+            "        print(x)",
+            "    }",
+            "}",
+        ]);
+    });
+
+    it("spaces operators, commas and unary minus", () => {
+        expect(
+            format(["var a=1+2*-3", "var b=[1,2 ,3]", "print( a,b )"])
+        ).toEqual(["var a = 1 + 2 * -3", "var b = [1, 2, 3]", "print(a, b)"]);
+    });
+
+    it("pulls a block brace up onto its header", () => {
+        expect(
+            format([
+                "def load()",
+                "{",
+                "    var i = 0",
+                "    while(i < 3)",
+                "    {",
+                "        i = i + 1",
+                "    }",
+                "    execute(as @a)",
+                "    {",
+                "        /say hi",
+                "    }",
+                "}",
+            ])
+        ).toEqual([
+            "def load() {",
+            "    var i = 0",
+            "    while (i < 3) {",
+            "        i = i + 1",
+            "    }",
+            "    execute(as @a) {",
+            "        /say hi",
+            "    }",
+            "}",
+        ]);
+    });
+
+    it("joins else and else if onto the closing brace", () => {
+        expect(
+            format([
+                "def f(var x)",
+                "{",
+                "    if(x == 1)",
+                "    {",
+                "        print(1)",
+                "    }",
+                "    else if(x == 2)",
+                "    {",
+                "        print(2)",
+                "    }",
+                "    else",
+                "    {",
+                "        print(3)",
+                "    }",
+                "}",
+                "f(1)",
+            ])
+        ).toEqual([
+            "def f(var x) {",
+            "    if (x == 1) {",
+            "        print(1)",
+            "    } else if (x == 2) {",
+            "        print(2)",
+            "    } else {",
+            "        print(3)",
+            "    }",
+            "}",
+            "",
+            "f(1)",
+        ]);
+    });
+
+    it("keeps one blank line between functions", () => {
+        expect(
+            format([
+                "def a(){",
+                "}",
+                "def b(){",
+                "}",
+                "",
+                "",
+                "",
+                "def c(){",
+                "}",
+            ])
+        ).toEqual([
+            "def a() {",
+            "}",
+            "",
+            "def b() {",
+            "}",
+            "",
+            "def c() {",
+            "}",
+        ]);
+    });
+
+    it("preserves comments", () => {
+        expect(
+            format([
+                "# header",
+                "def load() # entry",
+                "{",
+                "  var x=1 # one",
+                "}",
+            ])
+        ).toEqual([
+            "# header",
+            "def load() # entry",
+            "{",
+            "    var x = 1 # one",
+            "}",
+        ]);
+    });
+
+    it("leaves command lines alone unless command formatting is on", () => {
+        const source = ["def load(){", "/say   hello    world", "}"];
+
+        expect(format(source)).toEqual([
+            "def load() {",
+            "    /say   hello    world",
+            "}",
+        ]);
+
+        configuration.set("comet.format.commands", true);
+        expect(format(source)).toEqual([
+            "def load() {",
+            "    /say hello world",
+            "}",
+        ]);
+    });
+
+    it("is idempotent", () => {
+        const once = format([
+            "def f(var x)",
+            "{",
+            "if(x==1){print(-x)}",
+            "else",
+            "{",
+            "    /say   hi",
+            "}",
+            "}",
+            "",
+            "",
+            "var y=f(1)",
+        ]);
+
+        expect(format(once)).toEqual(once);
+    });
+
+    it("does nothing when the document has parse errors", () => {
+        const document = open(["def load(){", "var x = ", "}"]);
+
+        expect(
+            provider.provideDocumentFormattingEdits(document, options, token)
+        ).toEqual([]);
+    });
+
+    it("only edits lines inside the requested range", () => {
+        const document = open(["var a=1", "var b=2", "var c=3"]);
+
+        expect(
+            applyEdits(
+                document,
+                provider.provideDocumentRangeFormattingEdits(
+                    document,
+                    new vscode.Range(1, 0, 1, 7),
+                    options,
+                    token
+                )
+            )
+        ).toEqual("var a=1\nvar b = 2\nvar c=3");
+    });
+
+    it("includes the header line when a joined brace starts the range", () => {
+        const document = open(["def load()", "{", "var x=1", "}"]);
+
+        expect(
+            applyEdits(
+                document,
+                provider.provideDocumentRangeFormattingEdits(
+                    document,
+                    new vscode.Range(1, 0, 3, 1),
+                    options,
+                    token
+                )
+            )
+        ).toEqual("def load() {\n    var x = 1\n}");
+    });
+
+    it("formats the block closed by a typed }", () => {
+        const document = open(["var a=1", "def load(){", "var x=1", "}"]);
+
+        expect(
+            applyEdits(
+                document,
+                provider.provideOnTypeFormattingEdits(
+                    document,
+                    new vscode.Position(3, 1),
+                    "}",
+                    options,
+                    token
+                )
+            )
+        ).toEqual("var a=1\n\ndef load() {\n    var x = 1\n}");
+    });
+});
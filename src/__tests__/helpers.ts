@@ -0,0 +1,106 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as vscode from "vscode";
+import { DiagnosticGenerator } from "../analysis/diagnostics";
+import { WorkspaceIndex } from "../analysis/workspace";
+
+export function createDocument(
+    uri: vscode.Uri,
+    text: string,
+    version = 1
+): vscode.TextDocument {
+    const lines = text.split("\n");
+    const offsets: number[] = [];
+    let offset = 0;
+    for (const line of lines) {
+        offsets.push(offset);
+        offset += line.length + 1;
+    }
+
+    const offsetAt = (position: vscode.Position): number =>
+        Math.min(offsets[position.line] + position.character, text.length);
+
+    const document = {
+        uri,
+        version,
+        languageId: "comet",
+        lineCount: lines.length,
+        getText(range?: vscode.Range): string {
+            return range
+                ? text.substring(offsetAt(range.start), offsetAt(range.end))
+                : text;
+        },
+        lineAt(line: number | vscode.Position) {
+            const index = typeof line === "number" ? line : line.line;
+            const content = lines[index];
+            return {
+                lineNumber: index,
+                text: content,
+                range: new vscode.Range(index, 0, index, content.length),
+                firstNonWhitespaceCharacterIndex: content.search(/\S|$/),
+                isEmptyOrWhitespace: content.trim() === "",
+            };
+        },
+        offsetAt,
+        positionAt(target: number): vscode.Position {
+            let line = 0;
+            while (line + 1 < offsets.length && offsets[line + 1] <= target) {
+                line++;
+            }
+            return new vscode.Position(line, target - offsets[line]);
+        },
+        getWordRangeAtPosition(position: vscode.Position) {
+            const content = lines[position.line];
+            let start = position.character;
+            let end = position.character;
+            while (start > 0 && /\w/.test(content[start - 1])) start--;
+            while (end < content.length && /\w/.test(content[end])) end++;
+            return start === end
+                ? undefined
+                : new vscode.Range(position.line, start, position.line, end);
+        },
+    };
+    return document as unknown as vscode.TextDocument;
+}
+
+export function generateDiagnostics(
+    workspaceIndex: WorkspaceIndex,
+    document: vscode.TextDocument
+): vscode.Diagnostic[] {
+    const { parseResult } = workspaceIndex.update(document);
+    return new DiagnosticGenerator(workspaceIndex).generate(
+        parseResult.program,
+        parseResult.errors,
+        document.uri,
+        parseResult.comments
+    );
+}
+
+export class TempWorkspace {
+    readonly root = fs.mkdtempSync(path.join(os.tmpdir(), "comet-"));
+
+    constructor(files: Record<string, string> = {}) {
+        for (const [name, text] of Object.entries(files)) {
+            this.write(name, text);
+        }
+    }
+
+    uri(name: string): vscode.Uri {
+        return vscode.Uri.file(path.join(this.root, name));
+    }
+
+    write(name: string, text: string): vscode.Uri {
+        fs.writeFileSync(path.join(this.root, name), text);
+        return this.uri(name);
+    }
+
+    delete(name: string): vscode.Uri {
+        fs.rmSync(path.join(this.root, name));
+        return this.uri(name);
+    }
+
+    dispose(): void {
+        fs.rmSync(this.root, { recursive: true, force: true });
+    }
+}
@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import * as vscode from "vscode";
+import { DocumentManager } from "../utils/document";
+import { WorkspaceIndex } from "../analysis/workspace";
+import { createDocument, generateDiagnostics, TempWorkspace } from "./helpers";
+
+const IMPORT_RULES = [
+    "module-not-found",
+    "duplicate-import",
+    "unused-import",
+    "circular-import",
+];
+
+describe("import diagnostics", () => {
+    let workspace: TempWorkspace;
+    let index: WorkspaceIndex;
+
+    const check = (name: string, lines: string[]) => {
+        const text = lines.join("\n");
+        const document = createDocument(workspace.write(name, text), text);
+        return generateDiagnostics(index, document)
+            .filter(diagnostic =>
+                IMPORT_RULES.includes(diagnostic.code as string)
+            )
+            .map(diagnostic => [
+                diagnostic.code,
+                diagnostic.range.start.line,
+                diagnostic.range.start.character,
+            ]);
+    };
+
+    beforeEach(() => {
+        workspace = new TempWorkspace({
+            "lib.planet": "var limit = 10",
+        });
+        index = new WorkspaceIndex(new DocumentManager());
+    });
+
+    afterEach(() => {
+        workspace.dispose();
+    });
+
+    it("accepts a used import", () => {
+        expect(
+            check("main.planet", ["import lib", "var x = lib.limit"])
+        ).toEqual([]);
+    });
+
+    it("reports a module that does not exist", () => {
+        expect(check("main.planet", ["import missing"])).toEqual([
+            ["module-not-found", 0, 7],
+        ]);
+    });
+
+    it("reports a duplicate import once", () => {
+        expect(
+            check("main.planet", [
+                "import lib",
+                "import lib",
+                "var x = lib.limit",
+            ])
+        ).toEqual([["duplicate-import", 1, 0]]);
+    });
+
+    it("reports an import that is never used", () => {
+        const diagnostics = generateDiagnostics(
+            index,
+            createDocument(
+                workspace.write("main.planet", "import lib"),
+                "import lib"
+            )
+        );
+        const unused = diagnostics.find(d => d.code === "unused-import");
+
+        expect(unused?.range.start).toMatchObject({ line: 0, character: 0 });
+        expect(unused?.tags).toEqual([vscode.DiagnosticTag.Unnecessary]);
+    });
+
+    it("does not count a local with the module's name as a use", () => {
+        expect(
+            check("main.planet", [
+                "import lib",
+                "def f(){",
+                "    var lib = 1",
+                "    lib = lib + 1",
+                "}",
+            ])
+        ).toEqual([["unused-import", 0, 0]]);
+    });
+
+    it("reports an import cycle in every module on it", () => {
+        workspace.write("a.planet", ["import b", "var x = b.y"].join("\n"));
+        workspace.write("b.planet", ["import a", "var y = a.x"].join("\n"));
+
+        expect(check("a.planet", ["import b", "var x = b.y"])).toEqual([
+            ["circular-import", 0, 7],
+        ]);
+        expect(check("b.planet", ["import a", "var y = a.x"])).toEqual([
+            ["circular-import", 0, 7],
+        ]);
+    });
+
+    it("reports longer cycles", () => {
+        workspace.write("a.planet", ["import b", "var x = b.y"].join("\n"));
+        workspace.write("b.planet", ["import c", "var y = c.z"].join("\n"));
+        workspace.write("c.planet", ["import a", "var z = a.x"].join("\n"));
+
+        expect(check("c.planet", ["import a", "var z = a.x"])).toEqual([
+            ["circular-import", 0, 7],
+        ]);
+    });
+});
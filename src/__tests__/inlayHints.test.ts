@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import * as vscode from "vscode";
+import { DocumentManager } from "../utils/document";
+import { WorkspaceIndex } from "../analysis/workspace";
+import { InlayHintsProvider } from "../providers/inlayHints";
+import { createDocument } from "./helpers";
+import { configuration } from "./vscode";
+
+const uri = vscode.Uri.file("/workspace/main.planet");
+const token = {} as vscode.CancellationToken;
+
+const SOURCE = [
+    "def area(var width, var height){",
+    "    return width * height",
+    "}",
+    "var width = 2",
+    'var label = "box"',
+    "var size = area(width, 3)",
+];
+
+describe("inlay hints", () => {
+    let provider: InlayHintsProvider;
+
+    const hints = (lines: string[]) =>
+        provider
+            .provideInlayHints(
+                createDocument(uri, lines.join("\n")),
+                new vscode.Range(0, 0, lines.length, 0),
+                token
+            )
+            .map(hint => [
+                hint.position.line,
+                hint.position.character,
+                hint.label,
+                hint.kind,
+            ]);
+
+    beforeEach(() => {
+        const documentManager = new DocumentManager();
+        provider = new InlayHintsProvider(
+            documentManager,
+            new WorkspaceIndex(documentManager)
+        );
+    });
+
+    afterEach(() => {
+        configuration.clear();
+    });
+
+    it("shows variable types and parameter names except for same-named arguments", () => {
+        expect(hints(SOURCE)).toEqual([
+            [3, 9, ": int", vscode.InlayHintKind.Type],
+            [4, 9, ": string", vscode.InlayHintKind.Type],
+            [5, 8, ": int", vscode.InlayHintKind.Type],
+            [5, 23, "height:", vscode.InlayHintKind.Parameter],
+        ]);
+    });
+
+    it("hides parameter names when they are turned off", () => {
+        configuration.set("comet.inlayHints.parameterNames", false);
+
+        expect(hints(SOURCE)).toEqual([
+            [3, 9, ": int", vscode.InlayHintKind.Type],
+            [4, 9, ": string", vscode.InlayHintKind.Type],
+            [5, 8, ": int", vscode.InlayHintKind.Type],
+        ]);
+    });
+
+    it("hides variable types when they are turned off", () => {
+        configuration.set("comet.inlayHints.variableTypes", false);
+
+        expect(hints(SOURCE)).toEqual([
+            [5, 23, "height:", vscode.InlayHintKind.Parameter],
+        ]);
+    });
+
+    it("shows nothing when both are turned off", () => {
+        configuration.set("comet.inlayHints.parameterNames", false);
+        configuration.set("comet.inlayHints.variableTypes", false);
+
+        expect(hints(SOURCE)).toEqual([]);
+    });
+
+    it("names builtin parameters, including variadic ones", () => {
+        expect(hints(['print("a", 1)'])).toEqual([
+            [0, 6, "value:", vscode.InlayHintKind.Parameter],
+            [0, 11, "args:", vscode.InlayHintKind.Parameter],
+        ]);
+    });
+
+    it("only hints inside the requested range", () => {
+        expect(
+            provider
+                .provideInlayHints(
+                    createDocument(uri, SOURCE.join("\n")),
+                    new vscode.Range(4, 0, 4, 20),
+                    token
+                )
+                .map(hint => hint.label)
+        ).toEqual([": string"]);
+    });
+});
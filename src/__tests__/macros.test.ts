@@ -0,0 +1,175 @@
+import * as path from "path";
+import { beforeAll, beforeEach, describe, expect, it } from "vitest";
+import * as vscode from "vscode";
+import { DocumentManager } from "../utils/document";
+import { WorkspaceIndex } from "../analysis/workspace";
+import { CompletionProvider } from "../providers/completion";
+import { getSpyglassManager } from "../minecraft/spyglass";
+import { createDocument, generateDiagnostics } from "./helpers";
+
+const uri = vscode.Uri.file("/workspace/main.planet");
+const MACRO_RULES = ["syntax-error", "undefined-macro-variable", "mc-command"];
+
+describe("macro placeholders", () => {
+    let documentManager: DocumentManager;
+    let index: WorkspaceIndex;
+
+    const diagnose = (lines: string[]) =>
+        generateDiagnostics(index, createDocument(uri, lines.join("\n")))
+            .filter(diagnostic =>
+                MACRO_RULES.includes(diagnostic.code as string)
+            )
+            .map(diagnostic => [
+                diagnostic.code,
+                diagnostic.range.start.line,
+                diagnostic.range.start.character,
+                diagnostic.message,
+            ]);
+
+    beforeAll(async () => {
+        const spyglass = getSpyglassManager();
+        spyglass.setCacheDir(path.join(__dirname, "fixtures"));
+        await spyglass.initialize();
+    });
+
+    beforeEach(() => {
+        documentManager = new DocumentManager();
+        index = new WorkspaceIndex(documentManager);
+    });
+
+    describe("diagnostics", () => {
+        it("reports placeholders that name nothing in scope", () => {
+            expect(
+                diagnose([
+                    "def greet(var name){",
+                    "    /$say hello $(name) and $(other)",
+                    "}",
+                    "greet(1)",
+                ])
+            ).toEqual([
+                [
+                    "undefined-macro-variable",
+                    1,
+                    30,
+                    "diagnostic.undefinedMacroVariable",
+                ],
+            ]);
+        });
+
+        it("validates the command after a string placeholder", () => {
+            expect(
+                diagnose([
+                    "def mark(var holder){",
+                    "    /$scoreboard players set $(holder) points many",
+                    "}",
+                    'mark("#total")',
+                ])
+            ).toEqual([["mc-command", 1, 46, "error.expectedInteger"]]);
+        });
+
+        it("samples coordinates and selectors with the right token count", () => {
+            expect(
+                diagnose([
+                    "def move(var pos, var who){",
+                    "    /$teleport $(pos)",
+                    "    /$give $(who) diamond 1",
+                    "}",
+                    'move("~ ~1 ~", "@p")',
+                ])
+            ).toEqual([]);
+        });
+
+        it("does not judge the placeholder value itself", () => {
+            expect(
+                diagnose([
+                    "def mode(var value){",
+                    "    /$gamemode $(value)",
+                    "    /$give @s minecraft:$(value)",
+                    "}",
+                    'mode("creative")',
+                ])
+            ).toEqual([]);
+        });
+
+        it("validates the prefix of a placeholder that is a whole command", () => {
+            expect(
+                diagnose([
+                    "def later(var command){",
+                    "    /$execute as @a run $(command)",
+                    "    /$$(command)",
+                    "    /$execute bogus run $(command)",
+                    "}",
+                    'later("say hi")',
+                ]).map(([code, line]) => [code, line])
+            ).toEqual([["mc-command", 3]]);
+        });
+
+        it("uses the inferred type of numeric placeholders", () => {
+            expect(
+                diagnose([
+                    "def score(){",
+                    "    var amount = 5",
+                    "    /$scoreboard players set @s points $(amount)",
+                    "}",
+                ])
+            ).toEqual([]);
+        });
+    });
+
+    describe("completion", () => {
+        const complete = (lines: string[], line: number, character: number) =>
+            (
+                new CompletionProvider(
+                    documentManager,
+                    index
+                ).provideCompletionItems(
+                    createDocument(uri, lines.join("\n")),
+                    new vscode.Position(line, character),
+                    {} as vscode.CancellationToken,
+                    {} as vscode.CompletionContext
+                ) as vscode.CompletionItem[]
+            ).map(item => [item.label, item.detail]);
+
+        it("offers variables and parameters in scope after $(", () => {
+            expect(
+                complete(
+                    [
+                        "var greeting = 1",
+                        "def greet(var name){",
+                        "    var count = 2",
+                        "    /$say $(",
+                        "}",
+                        "def other(var hidden){",
+                        "}",
+                    ],
+                    3,
+                    12
+                )
+            ).toEqual([
+                ["name", "completion.parameter"],
+                ["count", "completion.variable"],
+                ["greeting", "completion.variable"],
+            ]);
+        });
+
+        it("prefers the innermost declaration of a shadowed name", () => {
+            const items = complete(
+                ["var name = 1", "def greet(var name){", "    /$say $(na", "}"],
+                2,
+                14
+            );
+
+            expect(items).toEqual([["name", "completion.parameter"]]);
+        });
+
+        it("does not offer placeholders outside macro commands", () => {
+            const items = complete(
+                ["def greet(var name){", "    /say $(", "}"],
+                1,
+                11
+            );
+
+            expect(items.map(([label]) => label)).not.toContain("name");
+        });
+    });
+});
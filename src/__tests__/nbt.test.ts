@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+import { Lexer } from "../lexer/lexer";
+import { Parser } from "../parser/parser";
+import * as AST from "../parser/ast";
+
+function parse(source: string) {
+    const parser = new Parser(new Lexer(source).tokenize(), source);
+    const program = parser.parse();
+    return { program, errors: parser.getErrors() };
+}
+
+function parseInit(source: string) {
+    const { program, errors } = parse(source);
+    const declaration = program.body[0] as AST.VarDeclaration;
+    return { init: declaration.init, errors };
+}
+
+describe("NBT parsing", () => {
+    it("parses a well-formed compound", () => {
+        const { init, errors } = parseInit(
+            'var data = {id: "minecraft:stone", Count: 1b, tags: ["a", b]}'
+        );
+
+        expect(errors).toEqual([]);
+        expect(init?.type).toBe("NbtCompound");
+        const compound = init as AST.NbtCompound;
+        expect(compound.entries.map(entry => entry.key.name)).toEqual([
+            "id",
+            "Count",
+            "tags",
+        ]);
+        expect(compound.entries[0].value).toMatchObject({
+            type: "NbtString",
+            value: "minecraft:stone",
+            quoted: true,
+        });
+        expect(compound.entries[2].value).toMatchObject({
+            type: "NbtList",
+            elements: [
+                { type: "NbtString", value: "a", quoted: true },
+                { type: "Identifier", name: "b" },
+            ],
+        });
+        expect(compound.range).toEqual({
+            start: { line: 0, character: 11 },
+            end: { line: 0, character: 61 },
+        });
+    });
+
+    it("parses typed arrays", () => {
+        const { init, errors } = parseInit("var pos = [I; 1, -2, 3]");
+
+        expect(errors).toEqual([]);
+        expect(init).toMatchObject({
+            type: "NbtTypedArray",
+            elementType: "I",
+            elements: [
+                { type: "NbtNumber", value: 1, raw: "1" },
+                { type: "NbtNumber", value: -2, raw: "-2" },
+                { type: "NbtNumber", value: 3, raw: "3" },
+            ],
+        });
+    });
+
+    it("reads number suffixes", () => {
+        const { init, errors } = parseInit(
+            "var n = {a: 1b, b: 3s, c: 10L, d: 2d, e: -1.5f}"
+        );
+
+        expect(errors).toEqual([]);
+        const values = (init as AST.NbtCompound).entries.map(
+            entry => entry.value as AST.NbtNumber
+        );
+        expect(values.map(value => [value.value, value.suffix])).toEqual([
+            [1, "b"],
+            [3, "s"],
+            [10, "l"],
+            [2, "d"],
+            [-1.5, "f"],
+        ]);
+        expect(values[4].raw).toBe("-1.5f");
+    });
+
+    it("accepts a trailing comma in a compound", () => {
+        const { init, errors } = parseInit("var trailing = {a: 1,}");
+
+        expect(errors).toEqual([]);
+        expect((init as AST.NbtCompound).entries).toHaveLength(1);
+    });
+
+    it("reports an unterminated string", () => {
+        const { errors } = parseInit('var u = {a: "x}');
+
+        expect(errors).toContainEqual({
+            message: "Unterminated string",
+            range: {
+                start: { line: 0, character: 12 },
+                end: expect.anything(),
+            },
+        });
+    });
+
+    it("reports an unterminated compound at its opening brace", () => {
+        const { init, errors } = parseInit("var open = {a: 1");
+
+        expect(errors).toEqual([
+            {
+                message: "Unterminated NBT compound",
+                range: {
+                    start: { line: 0, character: 11 },
+                    end: { line: 0, character: 12 },
+                },
+            },
+        ]);
+        expect((init as AST.NbtCompound).entries).toHaveLength(1);
+    });
+
+    it("reports a missing colon after a key", () => {
+        const { errors } = parseInit("var c = {a 1}");
+
+        expect(errors.map(error => error.message)).toEqual([
+            'Expected ":" after NBT key',
+            "Unexpected token in NBT compound: 1",
+        ]);
+        expect(errors[0].range.start).toEqual({ line: 0, character: 11 });
+    });
+
+    it("reports a non-number element in a typed array", () => {
+        const { init, errors } = parseInit("var arr = [B; 1b, x]");
+
+        expect(errors[0]).toEqual({
+            message: "Expected number in NBT B array",
+            range: {
+                start: { line: 0, character: 18 },
+                end: { line: 0, character: 19 },
+            },
+        });
+        expect((init as AST.NbtTypedArray).elements).toHaveLength(1);
+    });
+});
@@ -0,0 +1,168 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import * as vscode from "vscode";
+import { DocumentManager } from "../utils/document";
+import { WorkspaceIndex } from "../analysis/workspace";
+import { ReferenceFinder } from "../analysis/references";
+import { RenameProvider } from "../providers/rename";
+import { createDocument, TempWorkspace } from "./helpers";
+
+const token = {} as vscode.CancellationToken;
+
+describe("rename", () => {
+    let workspace: TempWorkspace;
+    let index: WorkspaceIndex;
+    let provider: RenameProvider;
+
+    const open = (name: string, text: string): vscode.TextDocument => {
+        const document = createDocument(workspace.write(name, text), text);
+        index.update(document);
+        return document;
+    };
+
+    const rename = (
+        document: vscode.TextDocument,
+        line: number,
+        character: number
+    ) => {
+        const edit = provider.provideRenameEdits(
+            document,
+            new vscode.Position(line, character),
+            "renamed",
+            token
+        ) as vscode.WorkspaceEdit;
+
+        return edit
+            .entries()
+            .map(([uri, edits]) => [
+                uri.path.substring(uri.path.lastIndexOf("/") + 1),
+                edits.map(({ range, newText }) => [
+                    range.start.line,
+                    range.start.character,
+                    range.end.character,
+                    newText,
+                ]),
+            ]);
+    };
+
+    beforeEach(() => {
+        workspace = new TempWorkspace();
+        index = new WorkspaceIndex(new DocumentManager());
+        provider = new RenameProvider(new ReferenceFinder(index));
+    });
+
+    afterEach(() => {
+        workspace.dispose();
+    });
+
+    it("leaves shadowing locals alone", () => {
+        const document = open(
+            "main.planet",
+            [
+                "var count = 1",
+                "def f(){",
+                "    var count = 2",
+                "    count = count + 1",
+                "}",
+                "count = count + 1",
+            ].join("\n")
+        );
+
+        expect(rename(document, 0, 5)).toEqual([
+            [
+                "main.planet",
+                [
+                    [0, 4, 9, "renamed"],
+                    [5, 0, 5, "renamed"],
+                    [5, 8, 13, "renamed"],
+                ],
+            ],
+        ]);
+        expect(rename(document, 3, 4)).toEqual([
+            [
+                "main.planet",
+                [
+                    [2, 8, 13, "renamed"],
+                    [3, 4, 9, "renamed"],
+                    [3, 12, 17, "renamed"],
+                ],
+            ],
+        ]);
+    });
+
+    it("renames a parameter only inside its function", () => {
+        const document = open(
+            "main.planet",
+            [
+                "def f(var amount){",
+                "    var total = amount * 2",
+                "}",
+                "var amount = 3",
+            ].join("\n")
+        );
+
+        expect(rename(document, 1, 17)).toEqual([
+            [
+                "main.planet",
+                [
+                    [0, 10, 16, "renamed"],
+                    [1, 16, 22, "renamed"],
+                ],
+            ],
+        ]);
+    });
+
+    it("updates module members and function commands in other files", () => {
+        const lib = open(
+            "lib.planet",
+            ["def value(){", "    return 1", "}"].join("\n")
+        );
+        open(
+            "main.planet",
+            [
+                "import lib",
+                "var result = lib.value()",
+                "/function __namespace__:value",
+            ].join("\n")
+        );
+
+        expect(rename(lib, 0, 5)).toEqual([
+            ["lib.planet", [[0, 4, 9, "renamed"]]],
+            [
+                "main.planet",
+                [
+                    [1, 17, 22, "renamed"],
+                    [2, 24, 29, "renamed"],
+                ],
+            ],
+        ]);
+    });
+
+    it("renames from a member access in the importing file", () => {
+        open("lib.planet", ["def value(){", "    return 1", "}"].join("\n"));
+        const main = open(
+            "main.planet",
+            ["import lib", "var result = lib.value()"].join("\n")
+        );
+
+        expect(rename(main, 1, 19)).toEqual([
+            ["lib.planet", [[0, 4, 9, "renamed"]]],
+            ["main.planet", [[1, 17, 22, "renamed"]]],
+        ]);
+    });
+
+    it("rejects builtins and invalid names", () => {
+        const document = open("main.planet", 'print("hi")');
+
+        expect(() =>
+            provider.prepareRename(document, new vscode.Position(0, 2), token)
+        ).toThrow("rename.notRenamable");
+        expect(() =>
+            provider.provideRenameEdits(
+                open("other.planet", "var a = 1"),
+                new vscode.Position(0, 4),
+                "1abc",
+                token
+            )
+        ).toThrow("rename.invalidName");
+    });
+});
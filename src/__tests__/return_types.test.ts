@@ -0,0 +1,87 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import * as vscode from "vscode";
+import * as AST from "../parser/ast";
+import { DocumentManager } from "../utils/document";
+import { WorkspaceIndex } from "../analysis/workspace";
+
+function findDeclaration(program: AST.Program, name: string) {
+    return program.body.find(
+        (stmt): stmt is AST.VarDeclaration =>
+            stmt.type === "VarDeclaration" && stmt.name.name === name
+    )!;
+}
+
+describe("function return types", () => {
+    it("infers void for a def that only returns without a value", () => {
+        const { scope } = new DocumentManager().parseText(
+            [
+                "def stop(var flag){",
+                "    if(flag){",
+                "        return",
+                "    }",
+                "    return",
+                "}",
+            ].join("\n")
+        );
+
+        expect(scope.resolve("stop")?.returnType).toBe("void");
+    });
+
+    it("unifies the types of every returned value", () => {
+        const { program, scope, types } = new DocumentManager().parseText(
+            [
+                "def pick(var flag){",
+                "    if(flag){",
+                "        return 1",
+                "    }",
+                '    return "none"',
+                "}",
+                "var picked = pick(true)",
+            ].join("\n")
+        );
+
+        expect(scope.resolve("pick")?.returnType).toBe("int|string");
+        expect(types.typeOf(findDeclaration(program, "picked").name)).toBe(
+            "int|string"
+        );
+    });
+
+    describe("across modules", () => {
+        let root: string;
+
+        beforeEach(() => {
+            root = fs.mkdtempSync(path.join(os.tmpdir(), "comet-"));
+            fs.writeFileSync(
+                path.join(root, "mathlib.planet"),
+                ["def double(var a){", "    return int(a) * 2", "}"].join("\n")
+            );
+            fs.writeFileSync(
+                path.join(root, "main.planet"),
+                ["import mathlib", "var total = mathlib.double(21)"].join("\n")
+            );
+        });
+
+        afterEach(() => {
+            fs.rmSync(root, { recursive: true, force: true });
+        });
+
+        it("feeds an imported function's return type into variable inference", () => {
+            const workspaceIndex = new WorkspaceIndex(new DocumentManager());
+            const main = workspaceIndex.reload(
+                vscode.Uri.file(path.join(root, "main.planet"))
+            )!;
+
+            const resolved = workspaceIndex.resolveFunction(main.uri, "double");
+            expect(resolved?.module.name).toBe("mathlib");
+            expect(resolved?.symbol.returnType).toBe("int");
+
+            const { program, types } = main.parseResult;
+            expect(types.typeOf(findDeclaration(program, "total").name)).toBe(
+                "int"
+            );
+        });
+    });
+});
@@ -0,0 +1,121 @@
+import * as fs from "fs";
+import * as path from "path";
+import { afterEach, describe, expect, it } from "vitest";
+import * as vscode from "vscode";
+import { DocumentManager } from "../utils/document";
+import { WorkspaceIndex } from "../analysis/workspace";
+import {
+    DIAGNOSTIC_RULES,
+    getDiagnosticSettings,
+    resolveSeverity,
+} from "../analysis/rules";
+import { createDocument, generateDiagnostics } from "./helpers";
+import { configuration } from "./vscode";
+
+const uri = vscode.Uri.file("/workspace/main.planet");
+const SOURCE = ["var a = 1", "if(a == 1) a = 2", "print(missing)"].join("\n");
+
+function diagnose() {
+    const index = new WorkspaceIndex(new DocumentManager());
+    return generateDiagnostics(index, createDocument(uri, SOURCE)).map(
+        diagnostic => [diagnostic.code, diagnostic.severity]
+    );
+}
+
+describe("diagnostic rules", () => {
+    afterEach(() => {
+        configuration.clear();
+    });
+
+    it("lists every rule in the settings schema and nothing else", () => {
+        const manifest = JSON.parse(
+            fs.readFileSync(
+                path.join(__dirname, "..", "..", "package.json"),
+                "utf-8"
+            )
+        );
+        const schema =
+            manifest.contributes.configuration.properties[
+                "comet.diagnostics.rules"
+            ];
+
+        expect(Object.keys(schema.properties)).toEqual(
+            Object.keys(DIAGNOSTIC_RULES)
+        );
+        expect(schema.additionalProperties).toBe(false);
+        for (const rule of Object.values<{ enum: string[] }>(
+            schema.properties
+        )) {
+            expect(rule.enum).toEqual(["error", "warning", "info", "off"]);
+        }
+    });
+
+    it("keeps default severities without overrides", () => {
+        expect(diagnose()).toEqual([
+            ["if-no-braces", vscode.DiagnosticSeverity.Warning],
+            ["undefined-identifier", vscode.DiagnosticSeverity.Warning],
+        ]);
+    });
+
+    it("remaps and drops diagnostics per rule", () => {
+        configuration.set("comet.diagnostics.rules", {
+            "if-no-braces": "off",
+            "undefined-identifier": "error",
+        });
+
+        expect(diagnose()).toEqual([
+            ["undefined-identifier", vscode.DiagnosticSeverity.Error],
+        ]);
+    });
+
+    it("maps the legacy undefinedVariable setting to undefined-identifier", () => {
+        configuration.set("comet.diagnostics.undefinedVariable", "info");
+        expect(getDiagnosticSettings(uri).rules["undefined-identifier"]).toBe(
+            "info"
+        );
+        expect(diagnose()).toContainEqual([
+            "undefined-identifier",
+            vscode.DiagnosticSeverity.Information,
+        ]);
+
+        configuration.set("comet.diagnostics.rules", {
+            "undefined-identifier": "off",
+        });
+        expect(diagnose()).toEqual([
+            ["if-no-braces", vscode.DiagnosticSeverity.Warning],
+        ]);
+    });
+
+    it("reports nothing when diagnostics are disabled", () => {
+        configuration.set("comet.diagnostics.enabled", false);
+
+        expect(diagnose()).toEqual([]);
+    });
+
+    it("resolves each configured severity", () => {
+        const settings = {
+            enabled: true,
+            rules: {
+                "syntax-error": "warning" as const,
+                "if-no-braces": "error" as const,
+                "unused-variable": "info" as const,
+                "unused-import": "off" as const,
+            },
+        };
+        const fallback = vscode.DiagnosticSeverity.Hint;
+
+        expect(resolveSeverity("syntax-error", fallback, settings)).toBe(
+            vscode.DiagnosticSeverity.Warning
+        );
+        expect(resolveSeverity("if-no-braces", fallback, settings)).toBe(
+            vscode.DiagnosticSeverity.Error
+        );
+        expect(resolveSeverity("unused-variable", fallback, settings)).toBe(
+            vscode.DiagnosticSeverity.Information
+        );
+        expect(resolveSeverity("unused-import", fallback, settings)).toBe(null);
+        expect(resolveSeverity("mc-command", fallback, settings)).toBe(
+            fallback
+        );
+    });
+});
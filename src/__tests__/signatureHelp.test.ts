@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import * as vscode from "vscode";
+import { DocumentManager } from "../utils/document";
+import { WorkspaceIndex } from "../analysis/workspace";
+import { BUILTIN_FUNCTIONS, Symbol } from "../analysis/scope";
+import { SignatureHelpProvider } from "../providers/signatureHelp";
+import { createDocument } from "./helpers";
+
+const uri = vscode.Uri.file("/workspace/main.planet");
+const token = {} as vscode.CancellationToken;
+
+describe("signature help", () => {
+    let provider: SignatureHelpProvider;
+
+    // The cursor goes at the end of the last line.
+    const help = (lines: string[], previous?: vscode.SignatureHelp) => {
+        const result = provider.provideSignatureHelp(
+            createDocument(uri, lines.join("\n")),
+            new vscode.Position(
+                lines.length - 1,
+                lines[lines.length - 1].length
+            ),
+            token,
+            { activeSignatureHelp: previous } as vscode.SignatureHelpContext
+        ) as vscode.SignatureHelp | null;
+
+        return (
+            result && {
+                signatures: result.signatures.map(signature => signature.label),
+                activeSignature: result.activeSignature,
+                activeParameter: result.activeParameter,
+            }
+        );
+    };
+
+    beforeEach(() => {
+        const documentManager = new DocumentManager();
+        provider = new SignatureHelpProvider(
+            documentManager,
+            new WorkspaceIndex(documentManager)
+        );
+    });
+
+    it("labels user functions with their inferred types", () => {
+        expect(
+            help(["def add(var a, var b){", "    return 1", "}", "add(1, "])
+        ).toEqual({
+            signatures: ["add(a: int, b: any) → int"],
+            activeSignature: 0,
+            activeParameter: 1,
+        });
+    });
+
+    it("tracks the innermost call when calls are nested", () => {
+        expect(help(['get_score(len("ab"), '])).toEqual({
+            signatures: ["get_score(target: string, objective: string) → int"],
+            activeSignature: 0,
+            activeParameter: 1,
+        });
+        expect(help(['get_score(len("ab"'])).toEqual({
+            signatures: ["len(value: array|string) → int"],
+            activeSignature: 0,
+            activeParameter: 0,
+        });
+    });
+
+    it("does not count commas inside strings", () => {
+        expect(help(['get_score("a, b", '])).toEqual({
+            signatures: ["get_score(target: string, objective: string) → int"],
+            activeSignature: 0,
+            activeParameter: 1,
+        });
+    });
+
+    it("stays on the variadic parameter past the last one", () => {
+        expect(help(["print(1, 2, 3, "])).toEqual({
+            signatures: ["print(value, ...args) → void"],
+            activeSignature: 0,
+            activeParameter: 1,
+        });
+    });
+
+    it("returns nothing outside a call", () => {
+        expect(help(["var a = 1"])).toBe(null);
+        expect(help(["print(1)"])).toBe(null);
+    });
+
+    describe("overloads", () => {
+        const overload: Symbol = {
+            ...BUILTIN_FUNCTIONS.find(builtin => builtin.name === "round")!,
+            params: [
+                { name: "value", type: "float|double" },
+                { name: "digits", type: "int" },
+            ],
+            returnType: "double",
+        };
+
+        beforeEach(() => {
+            BUILTIN_FUNCTIONS.push(overload);
+        });
+
+        afterEach(() => {
+            BUILTIN_FUNCTIONS.splice(BUILTIN_FUNCTIONS.indexOf(overload), 1);
+        });
+
+        it("lists every overload and picks one that fits", () => {
+            expect(help(["round(1.5"])).toEqual({
+                signatures: [
+                    "round(value: float|double) → int",
+                    "round(value: float|double, digits: int) → double",
+                ],
+                activeSignature: 0,
+                activeParameter: 0,
+            });
+            expect(help(["round(1.5, "])).toEqual({
+                signatures: [
+                    "round(value: float|double) → int",
+                    "round(value: float|double, digits: int) → double",
+                ],
+                activeSignature: 1,
+                activeParameter: 1,
+            });
+        });
+
+        it("keeps the previously active overload while it still fits", () => {
+            const previous = new vscode.SignatureHelp();
+            previous.activeSignature = 1;
+
+            expect(help(["round("], previous)).toEqual({
+                signatures: [
+                    "round(value: float|double) → int",
+                    "round(value: float|double, digits: int) → double",
+                ],
+                activeSignature: 1,
+                activeParameter: 0,
+            });
+        });
+    });
+});
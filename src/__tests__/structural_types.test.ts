@@ -0,0 +1,135 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import * as vscode from "vscode";
+import * as AST from "../parser/ast";
+import { DocumentManager } from "../utils/document";
+import { WorkspaceIndex } from "../analysis/workspace";
+import { CompletionProvider } from "../providers/completion";
+import { createDocument, generateDiagnostics } from "./helpers";
+
+const uri = vscode.Uri.file("/workspace/main.planet");
+
+function declarationTypes(lines: string[]) {
+    const { program, types } = new DocumentManager().parseText(
+        lines.join("\n")
+    );
+    return program.body
+        .filter(
+            (stmt): stmt is AST.VarDeclaration => stmt.type === "VarDeclaration"
+        )
+        .map(stmt => [stmt.name.name, types.typeOf(stmt.name)]);
+}
+
+describe("structural types", () => {
+    let documentManager: DocumentManager;
+    let index: WorkspaceIndex;
+
+    beforeEach(() => {
+        documentManager = new DocumentManager();
+        index = new WorkspaceIndex(documentManager);
+    });
+
+    it("gives compound literals a type with their keys", () => {
+        expect(
+            declarationTypes([
+                'var player = {name: "steve", hp: 20, pos: {x: 1.5}}',
+                "var hp = player.hp",
+                "var x = player.pos.x",
+            ])
+        ).toEqual([
+            ["player", "{name: string, hp: int, pos: {x: double}}"],
+            ["hp", "int"],
+            ["x", "double"],
+        ]);
+    });
+
+    it("tracks array element types through append", () => {
+        expect(
+            declarationTypes([
+                "var queue = []",
+                'append(queue, {id: 1, tag: "a"})',
+                "var first = queue[0]",
+                "var id = queue[0].id",
+            ])
+        ).toEqual([
+            ["queue", "array"],
+            ["first", "{id: int, tag: string}"],
+            ["id", "int"],
+        ]);
+    });
+
+    describe("completion", () => {
+        const complete = (lines: string[], line: number, character: number) =>
+            (
+                new CompletionProvider(
+                    documentManager,
+                    index
+                ).provideCompletionItems(
+                    createDocument(uri, lines.join("\n")),
+                    new vscode.Position(line, character),
+                    {} as vscode.CancellationToken,
+                    {} as vscode.CompletionContext
+                ) as vscode.CompletionItem[]
+            ).map(item => [item.label, item.detail]);
+
+        it("offers the keys of a compound after a dot", () => {
+            expect(
+                complete(
+                    ['var player = {name: "steve", hp: 20}', "player."],
+                    1,
+                    7
+                )
+            ).toEqual([
+                ["name", "string"],
+                ["hp", "int"],
+            ]);
+        });
+
+        it("follows indexing and nested keys", () => {
+            expect(
+                complete(
+                    [
+                        "var queue = []",
+                        "append(queue, {pos: {x: 1, y: 2}})",
+                        "queue[0].pos.",
+                    ],
+                    2,
+                    13
+                )
+            ).toEqual([
+                ["x", "int"],
+                ["y", "int"],
+            ]);
+        });
+    });
+
+    describe("unknown-property", () => {
+        const diagnose = (lines: string[]) =>
+            generateDiagnostics(index, createDocument(uri, lines.join("\n")))
+                .filter(diagnostic => diagnostic.code === "unknown-property")
+                .map(diagnostic => [
+                    diagnostic.range.start.line,
+                    diagnostic.range.start.character,
+                    diagnostic.message,
+                ]);
+
+        it("reports keys missing from a known shape", () => {
+            expect(
+                diagnose([
+                    'var player = {name: "steve", hp: 20}',
+                    "print(player.name)",
+                    "print(player.mana)",
+                ])
+            ).toEqual([[2, 13, "diagnostic.unknownProperty"]]);
+        });
+
+        it("stays quiet when the object shape is not fully known", () => {
+            expect(
+                diagnose([
+                    "def show(var value){",
+                    "    print(value.anything)",
+                    "}",
+                ])
+            ).toEqual([]);
+        });
+    });
+});
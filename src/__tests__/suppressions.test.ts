@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import * as vscode from "vscode";
+import { DocumentManager } from "../utils/document";
+import { WorkspaceIndex } from "../analysis/workspace";
+import { createDocument, generateDiagnostics } from "./helpers";
+
+const uri = vscode.Uri.file("/workspace/main.planet");
+
+function diagnose(lines: string[]) {
+    const index = new WorkspaceIndex(new DocumentManager());
+    return generateDiagnostics(index, createDocument(uri, lines.join("\n")))
+        .map(diagnostic => [diagnostic.code, diagnostic.range.start.line])
+        .filter(([code]) => code !== "unused-variable");
+}
+
+describe("suppression comments", () => {
+    it("disables every rule on the next line", () => {
+        expect(
+            diagnose(["# comet-disable-next-line", "print(a, b)", "print(c)"])
+        ).toEqual([["undefined-identifier", 2]]);
+    });
+
+    it("disables only the listed rules on the next line", () => {
+        expect(
+            diagnose([
+                "var x = 1",
+                "# comet-disable-next-line if-no-braces, argument-count",
+                "if(x == 1) print(missing)",
+            ])
+        ).toEqual([["undefined-identifier", 2]]);
+    });
+
+    it("does not reach past the next line", () => {
+        expect(
+            diagnose(["# comet-disable-next-line", "", "print(missing)"])
+        ).toEqual([["undefined-identifier", 2]]);
+    });
+
+    it("disables rules for the whole file from anywhere", () => {
+        expect(
+            diagnose([
+                "print(a)",
+                "var x = 1",
+                "if(x == 1) x = 2",
+                "# comet-disable-file undefined-identifier",
+                "print(b)",
+            ])
+        ).toEqual([["if-no-braces", 2]]);
+    });
+
+    it("disables rules between disable and enable", () => {
+        expect(
+            diagnose([
+                "print(a)",
+                "# comet-disable undefined-identifier",
+                "print(b)",
+                "print(c)",
+                "# comet-enable undefined-identifier",
+                "print(d)",
+            ])
+        ).toEqual([
+            ["undefined-identifier", 0],
+            ["undefined-identifier", 5],
+        ]);
+    });
+
+    it("closes every open region on a bare enable", () => {
+        expect(
+            diagnose([
+                "var x = 1",
+                "# comet-disable undefined-identifier",
+                "# comet-disable if-no-braces",
+                "if(x == 1) print(a)",
+                "# comet-enable",
+                "if(x == 1) print(b)",
+            ])
+        ).toEqual([
+            ["if-no-braces", 5],
+            ["undefined-identifier", 5],
+        ]);
+    });
+
+    it("keeps a region without enable open to the end of the file", () => {
+        expect(
+            diagnose(["# comet-disable", "print(a)", "", "print(b)"])
+        ).toEqual([]);
+    });
+
+    it("ignores an enable for a rule that was never disabled", () => {
+        expect(
+            diagnose([
+                "# comet-disable undefined-identifier",
+                "# comet-enable if-no-braces",
+                "print(a)",
+            ])
+        ).toEqual([]);
+    });
+
+    it("suppresses nothing for unknown rule IDs", () => {
+        expect(
+            diagnose([
+                "# comet-disable-next-line no-such-rule",
+                "print(a)",
+                "# comet-disable-file undefined-identifer",
+                "print(b)",
+            ])
+        ).toEqual([
+            ["undefined-identifier", 1],
+            ["undefined-identifier", 3],
+        ]);
+    });
+
+    it("ignores comments that only mention a directive", () => {
+        expect(diagnose(["# see comet-disable-next-line", "print(a)"])).toEqual(
+            [["undefined-identifier", 1]]
+        );
+    });
+});
@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import * as vscode from "vscode";
+import { DocumentManager } from "../utils/document";
+import { WorkspaceIndex } from "../analysis/workspace";
+import { createDocument, generateDiagnostics, TempWorkspace } from "./helpers";
+
+const UNUSED_RULES = ["unused-variable", "unused-parameter", "unused-function"];
+
+describe("unused symbols", () => {
+    let workspace: TempWorkspace;
+    let index: WorkspaceIndex;
+
+    const open = (name: string, lines: string[]): vscode.TextDocument => {
+        const text = lines.join("\n");
+        const document = createDocument(workspace.write(name, text), text);
+        index.update(document);
+        return document;
+    };
+
+    const diagnose = (document: vscode.TextDocument) =>
+        generateDiagnostics(index, document)
+            .filter(diagnostic =>
+                UNUSED_RULES.includes(diagnostic.code as string)
+            )
+            .map(diagnostic => [
+                diagnostic.code,
+                diagnostic.range.start.line,
+                diagnostic.range.start.character,
+            ]);
+
+    beforeEach(() => {
+        workspace = new TempWorkspace();
+        index = new WorkspaceIndex(new DocumentManager());
+    });
+
+    afterEach(() => {
+        workspace.dispose();
+    });
+
+    it("reports unused functions but not tick and load", () => {
+        const document = open("main.planet", [
+            "def tick(){",
+            "}",
+            "def load(){",
+            "}",
+            "def helper(){",
+            "}",
+        ]);
+
+        expect(diagnose(document)).toEqual([["unused-function", 4, 4]]);
+    });
+
+    it("counts a use from another module", () => {
+        const lib = open("lib.planet", ["var limit = 3", "def helper(){", "}"]);
+        open("main.planet", ["import lib", "lib.helper()", "print(lib.limit)"]);
+
+        expect(diagnose(lib)).toEqual([]);
+    });
+
+    it("counts a call through function __namespace__:name", () => {
+        const document = open("main.planet", [
+            "def helper(){",
+            "}",
+            "/function __namespace__:helper",
+        ]);
+
+        expect(diagnose(document)).toEqual([]);
+    });
+
+    it("counts parameters used only in macro placeholders", () => {
+        const document = open("main.planet", [
+            "def greet(var name, var unused){",
+            "    /$say $(name)",
+            "}",
+            "greet(1, 2)",
+        ]);
+
+        expect(diagnose(document)).toEqual([["unused-parameter", 0, 24]]);
+    });
+
+    it("reports variables that are only written", () => {
+        const document = open("main.planet", [
+            "def load(){",
+            "    var count = 0",
+            "    count = 1",
+            "    var total = 0",
+            "    print(total)",
+            "}",
+        ]);
+
+        expect(diagnose(document)).toEqual([["unused-variable", 1, 8]]);
+    });
+});
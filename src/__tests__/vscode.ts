@@ -0,0 +1,337 @@
+// Minimal stand-in for the "vscode" module so analysis code can run outside
+// the extension host.
+
+export class Position {
+    constructor(
+        readonly line: number,
+        readonly character: number
+    ) {}
+}
+
+export class Range {
+    readonly start: Position;
+    readonly end: Position;
+
+    constructor(start: Position, end: Position);
+    constructor(
+        startLine: number,
+        startCharacter: number,
+        endLine: number,
+        endCharacter: number
+    );
+    constructor(
+        a: Position | number,
+        b: Position | number,
+        c?: number,
+        d?: number
+    ) {
+        if (typeof a === "number") {
+            this.start = new Position(a, b as number);
+            this.end = new Position(c!, d!);
+        } else {
+            this.start = a;
+            this.end = b as Position;
+        }
+    }
+
+    contains(position: Position): boolean {
+        const after =
+            position.line > this.start.line ||
+            (position.line === this.start.line &&
+                position.character >= this.start.character);
+        const before =
+            position.line < this.end.line ||
+            (position.line === this.end.line &&
+                position.character <= this.end.character);
+        return after && before;
+    }
+
+    get isEmpty(): boolean {
+        return (
+            this.start.line === this.end.line &&
+            this.start.character === this.end.character
+        );
+    }
+}
+
+export class Uri {
+    readonly scheme = "file";
+
+    private constructor(readonly path: string) {}
+
+    get fsPath(): string {
+        return this.path;
+    }
+
+    static file(path: string): Uri {
+        return new Uri(path);
+    }
+
+    static parse(value: string): Uri {
+        return new Uri(value.replace(/^file:\/\//, ""));
+    }
+
+    static joinPath(base: Uri, ...segments: string[]): Uri {
+        const parts = base.path.split("/");
+        for (const segment of segments) {
+            if (segment === "..") {
+                parts.pop();
+            } else {
+                parts.push(segment);
+            }
+        }
+        return new Uri(parts.join("/"));
+    }
+
+    toString(): string {
+        return `file://${this.path}`;
+    }
+}
+
+export enum DiagnosticSeverity {
+    Error = 0,
+    Warning = 1,
+    Information = 2,
+    Hint = 3,
+}
+
+export enum DiagnosticTag {
+    Unnecessary = 1,
+    Deprecated = 2,
+}
+
+export enum CompletionItemKind {
+    Text = 0,
+    Method = 1,
+    Function = 2,
+    Field = 4,
+    Variable = 5,
+    Class = 6,
+    Module = 8,
+    Property = 9,
+    Value = 11,
+    Enum = 12,
+    Keyword = 13,
+    Color = 15,
+    File = 16,
+    Reference = 17,
+    Folder = 18,
+    EnumMember = 19,
+    Constant = 20,
+    Event = 22,
+    Operator = 23,
+}
+
+export class Location {
+    constructor(
+        readonly uri: Uri,
+        readonly range: Range
+    ) {}
+}
+
+export class DiagnosticRelatedInformation {
+    constructor(
+        readonly location: Location,
+        readonly message: string
+    ) {}
+}
+
+export class Diagnostic {
+    source?: string;
+    code?: string | { value: string; target: Uri };
+    tags?: DiagnosticTag[];
+    relatedInformation?: DiagnosticRelatedInformation[];
+
+    constructor(
+        readonly range: Range,
+        readonly message: string,
+        readonly severity: DiagnosticSeverity
+    ) {}
+}
+
+export const l10n = {
+    t(message: string, ...args: unknown[]): string {
+        return message.replace(/\{(\d+)\}/g, (_, index) =>
+            String(args[Number(index)])
+        );
+    },
+};
+
+// Settings read through workspace.getConfiguration, keyed by full name
+// (e.g. "comet.diagnostics.enabled").
+export const configuration = new Map<string, unknown>();
+
+export const workspace = {
+    textDocuments: [] as unknown[],
+    getConfiguration(section?: string) {
+        return {
+            get<T>(key: string, defaultValue: T): T {
+                const name = section ? `${section}.${key}` : key;
+                return configuration.has(name)
+                    ? (configuration.get(name) as T)
+                    : defaultValue;
+            },
+        };
+    },
+};
+
+export class TextEdit {
+    constructor(
+        readonly range: Range,
+        readonly newText: string
+    ) {}
+
+    static replace(range: Range, newText: string): TextEdit {
+        return new TextEdit(range, newText);
+    }
+
+    static insert(position: Position, newText: string): TextEdit {
+        return new TextEdit(new Range(position, position), newText);
+    }
+
+    static delete(range: Range): TextEdit {
+        return new TextEdit(range, "");
+    }
+}
+
+export class WorkspaceEdit {
+    private edits: [Uri, TextEdit][] = [];
+
+    get size(): number {
+        return new Set(this.edits.map(([uri]) => uri.toString())).size;
+    }
+
+    replace(uri: Uri, range: Range, newText: string): void {
+        this.edits.push([uri, TextEdit.replace(range, newText)]);
+    }
+
+    insert(uri: Uri, position: Position, newText: string): void {
+        this.edits.push([uri, TextEdit.insert(position, newText)]);
+    }
+
+    delete(uri: Uri, range: Range): void {
+        this.edits.push([uri, TextEdit.delete(range)]);
+    }
+
+    get(uri: Uri): TextEdit[] {
+        return this.edits
+            .filter(([target]) => target.toString() === uri.toString())
+            .map(([, edit]) => edit);
+    }
+
+    entries(): [Uri, TextEdit[]][] {
+        const uris = new Map<string, Uri>();
+        for (const [uri] of this.edits) {
+            uris.set(uri.toString(), uri);
+        }
+        return Array.from(uris.values()).map(uri => [uri, this.get(uri)]);
+    }
+}
+
+export class CompletionItem {
+    detail?: string;
+    documentation?: string | MarkdownString;
+    insertText?: string | SnippetString;
+    range?: Range;
+    sortText?: string;
+    filterText?: string;
+
+    constructor(
+        public label: string,
+        public kind?: CompletionItemKind
+    ) {}
+}
+
+export class MarkdownString {
+    constructor(public value = "") {}
+
+    appendMarkdown(value: string): MarkdownString {
+        this.value += value;
+        return this;
+    }
+
+    appendCodeblock(code: string, language = ""): MarkdownString {
+        this.value += `\n\`\`\`${language}\n${code}\n\`\`\`\n`;
+        return this;
+    }
+
+    appendText(value: string): MarkdownString {
+        this.value += value;
+        return this;
+    }
+}
+
+export class SnippetString {
+    constructor(public value = "") {}
+}
+
+export class CodeActionKind {
+    static readonly QuickFix = new CodeActionKind("quickfix");
+
+    private constructor(readonly value: string) {}
+}
+
+export class CodeAction {
+    diagnostics?: Diagnostic[];
+    edit?: WorkspaceEdit;
+    isPreferred?: boolean;
+
+    constructor(
+        public title: string,
+        public kind?: CodeActionKind
+    ) {}
+}
+
+export class ParameterInformation {
+    constructor(
+        public label: string | [number, number],
+        public documentation?: string | MarkdownString
+    ) {}
+}
+
+export class SignatureInformation {
+    parameters: ParameterInformation[] = [];
+    activeParameter?: number;
+
+    constructor(
+        public label: string,
+        public documentation?: string | MarkdownString
+    ) {}
+}
+
+export class SignatureHelp {
+    signatures: SignatureInformation[] = [];
+    activeSignature = 0;
+    activeParameter = 0;
+}
+
+export enum InlayHintKind {
+    Type = 1,
+    Parameter = 2,
+}
+
+export class InlayHint {
+    paddingLeft?: boolean;
+    paddingRight?: boolean;
+
+    constructor(
+        public position: Position,
+        public label: string,
+        public kind?: InlayHintKind
+    ) {}
+}
+
+export class EventEmitter<T> {
+    private listeners: ((value: T) => void)[] = [];
+
+    readonly event = (listener: (value: T) => void) => {
+        this.listeners.push(listener);
+        return { dispose: () => {} };
+    };
+
+    fire(value: T): void {
+        for (const listener of this.listeners) {
+            listener(value);
+        }
+    }
+}
@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import * as AST from "../parser/ast";
+import { DocumentManager } from "../utils/document";
+import { WorkspaceIndex } from "../analysis/workspace";
+import { TempWorkspace } from "./helpers";
+
+function findMember(program: AST.Program): AST.MemberExpression {
+    const declaration = program.body.find(
+        (stmt): stmt is AST.VarDeclaration => stmt.type === "VarDeclaration"
+    )!;
+    const init = declaration.init as AST.CallExpression;
+    return init.callee as AST.MemberExpression;
+}
+
+describe("WorkspaceIndex", () => {
+    let workspace: TempWorkspace;
+    let index: WorkspaceIndex;
+
+    beforeEach(() => {
+        workspace = new TempWorkspace({
+            "lib.planet": [
+                "var limit = 10",
+                "def value(){",
+                "    return 1",
+                "}",
+            ].join("\n"),
+            "main.planet": ["import lib", "var result = lib.value()"].join(
+                "\n"
+            ),
+        });
+        index = new WorkspaceIndex(new DocumentManager());
+    });
+
+    afterEach(() => {
+        workspace.dispose();
+    });
+
+    it("resolves an import to the module next to the importing file", () => {
+        const module = index.resolveImport(workspace.uri("main.planet"), "lib");
+
+        expect(module?.name).toBe("lib");
+        expect(Array.from(module!.exports.keys())).toEqual(["limit", "value"]);
+        expect(index.resolveImport(workspace.uri("main.planet"), "nope")).toBe(
+            null
+        );
+    });
+
+    it("resolves module members through the import symbol", () => {
+        const main = index.reload(workspace.uri("main.planet"))!;
+        const { program, scope } = main.parseResult;
+
+        const resolved = index.resolveMember(
+            main.uri,
+            scope,
+            findMember(program)
+        );
+
+        expect(resolved?.module.name).toBe("lib");
+        expect(resolved?.symbol).toMatchObject({
+            name: "value",
+            kind: "function",
+            returnType: "int",
+        });
+    });
+
+    it("re-analyzes dependents when an export signature changes", () => {
+        const main = index.reload(workspace.uri("main.planet"))!;
+        index.reload(workspace.uri("lib.planet"));
+
+        workspace.write(
+            "lib.planet",
+            ["var limit = 10", "def value(){", '    return "one"', "}"].join(
+                "\n"
+            )
+        );
+        index.reload(workspace.uri("lib.planet"));
+
+        const updated = index.getModule(workspace.uri("main.planet"))!;
+        expect(updated).not.toBe(main);
+        const { program, types } = updated.parseResult;
+        const declaration = program.body[1] as AST.VarDeclaration;
+        expect(types.typeOf(declaration.name)).toBe("string");
+    });
+
+    it("keeps dependents when only a function body changes", () => {
+        const main = index.reload(workspace.uri("main.planet"))!;
+        index.reload(workspace.uri("lib.planet"));
+
+        workspace.write(
+            "lib.planet",
+            ["var limit = 10", "def value(){", "    return 2", "}"].join("\n")
+        );
+        index.reload(workspace.uri("lib.planet"));
+
+        expect(index.getModule(workspace.uri("main.planet"))).toBe(main);
+    });
+
+    it("forgets a removed module", () => {
+        index.reload(workspace.uri("main.planet"));
+        index.reload(workspace.uri("lib.planet"));
+
+        index.remove(workspace.delete("lib.planet"));
+
+        expect(index.getModules().map(module => module.name)).toEqual(["main"]);
+        expect(index.resolveImport(workspace.uri("main.planet"), "lib")).toBe(
+            null
+        );
+    });
+
+    it("stops at import cycles and reports them", () => {
+        workspace.write("a.planet", ["import b", "var x = b.y"].join("\n"));
+        workspace.write("b.planet", ["import a", "var y = a.x"].join("\n"));
+
+        const a = index.reload(workspace.uri("a.planet"))!;
+
+        expect(index.resolveImportScope(a.uri, "b")).not.toBe(null);
+        expect(index.findImportCycle(a.uri, "b")).toEqual(["a", "b", "a"]);
+        expect(index.findImportCycle(workspace.uri("main.planet"), "lib")).toBe(
+            null
+        );
+    });
+});
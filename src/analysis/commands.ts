@@ -0,0 +1,522 @@
+import * as AST from "../parser/ast";
+import { forEachNode } from "../utils/ast";
+import {
+    containsPosition,
+    createRange,
+    Position,
+    Range,
+} from "../utils/position";
+import {
+    CommandValidationError,
+    getSpyglassManager,
+} from "../minecraft/spyglass";
+
+export interface CommandMatch {
+    name: string;
+    start: number;
+    length: number;
+}
+
+export interface FunctionCallReference {
+    name: string;
+    range: Range;
+}
+
+export type CommandStatementNode =
+    AST.CommandStatement | AST.MacroCommandStatement | AST.ExecuteStatement;
+
+export interface LocatedCommandError extends CommandValidationError {
+    line: number;
+    character: number;
+}
+
+export type MacroTypeResolver = (
+    expansion: AST.MacroExpansion
+) => string | undefined;
+
+const FUNCTION_PATTERN = /\bfunction\s+__namespace__:([A-Za-z0-9_]+)/g;
+
+export function getCommandOffset(
+    node: AST.CommandStatement | AST.MacroCommandStatement
+): number {
+    return node.commandRange.end.character - node.command.length;
+}
+
+export function findFunctionCalls(command: string): CommandMatch[] {
+    const matches: CommandMatch[] = [];
+    FUNCTION_PATTERN.lastIndex = 0;
+
+    let match;
+    while ((match = FUNCTION_PATTERN.exec(command)) !== null) {
+        const name = match[1];
+        matches.push({
+            name,
+            start: match.index + match[0].length - name.length,
+            length: name.length,
+        });
+    }
+
+    return matches;
+}
+
+export function getCommandFunctionCalls(
+    node: AST.CommandStatement | AST.MacroCommandStatement
+): FunctionCallReference[] {
+    const line = node.commandRange.start.line;
+    const offset = getCommandOffset(node);
+
+    return findFunctionCalls(node.command).map(call => ({
+        name: call.name,
+        range: createRange(
+            line,
+            offset + call.start,
+            line,
+            offset + call.start + call.length
+        ),
+    }));
+}
+
+export function findFunctionCallAt(
+    program: AST.Program,
+    pos: Position
+): FunctionCallReference | null {
+    let found: FunctionCallReference | null = null;
+
+    forEachNode(program, node => {
+        if (
+            found ||
+            (node.type !== "CommandStatement" &&
+                node.type !== "MacroCommandStatement") ||
+            !containsPosition(node.commandRange, pos)
+        ) {
+            return;
+        }
+
+        found =
+            getCommandFunctionCalls(node).find(call =>
+                containsPosition(call.range, pos)
+            ) ?? null;
+    });
+
+    return found;
+}
+
+export interface CommandToken {
+    value: string;
+    start: number;
+}
+
+export interface ResourceMatch extends CommandMatch {
+    isDefinition: boolean;
+}
+
+export interface StorageMatch extends ResourceMatch {
+    path?: string;
+}
+
+const SCORES_PATTERN = /\bscores\s*=\s*\{([^}]*)\}/g;
+const TAGS_PATTERN = /\bTags\s*:\s*\[([^\]]*)\]/g;
+const SELECTOR_TAG_PATTERN = /[[,]\s*tag\s*=\s*!?\s*([^,\]\s]+)/g;
+const PLAYERS_OBJECTIVE_INDEX: Record<string, number[]> = {
+    set: [4],
+    add: [4],
+    remove: [4],
+    get: [4],
+    enable: [4],
+    reset: [4],
+    operation: [4, 7],
+    display: [5],
+};
+
+export function tokenizeCommand(command: string): CommandToken[] {
+    const tokens: CommandToken[] = [];
+    let value = "";
+    let start = 0;
+    let depth = 0;
+    let quote: string | null = null;
+
+    for (let i = 0; i < command.length; i++) {
+        const char = command[i];
+
+        if (quote) {
+            if (char === "\\") {
+                value += char + (command[i + 1] ?? "");
+                i++;
+                continue;
+            }
+            if (char === quote) quote = null;
+        } else if (char === '"' || char === "'") {
+            quote = char;
+        } else if (char === "[" || char === "{") {
+            depth++;
+        } else if (char === "]" || char === "}") {
+            depth = Math.max(0, depth - 1);
+        } else if (char === " " && depth === 0) {
+            if (value) tokens.push({ value, start });
+            value = "";
+            continue;
+        }
+
+        if (!value) start = i;
+        value += char;
+    }
+
+    if (value) tokens.push({ value, start });
+    return tokens;
+}
+
+export function findObjectiveReferences(command: string): ResourceMatch[] {
+    const tokens = tokenizeCommand(command);
+    const matches: ResourceMatch[] = [];
+
+    const add = (index: number, isDefinition: boolean) => {
+        const token = tokens[index];
+        if (!token || !isResourceName(token.value)) return;
+        matches.push({
+            name: token.value,
+            start: token.start,
+            length: token.value.length,
+            isDefinition,
+        });
+    };
+
+    for (let i = 0; i < tokens.length; i++) {
+        const value = tokens[i].value;
+        const next = tokens[i + 1]?.value;
+
+        if (value === "scoreboard" && next === "objectives") {
+            const action = tokens[i + 2]?.value;
+            if (action === "add") add(i + 3, true);
+            else if (action === "remove" || action === "modify")
+                add(i + 3, false);
+            else if (action === "setdisplay") add(i + 4, false);
+        } else if (value === "scoreboard" && next === "players") {
+            const indices = PLAYERS_OBJECTIVE_INDEX[tokens[i + 2]?.value];
+            indices?.forEach(index => add(i + index, false));
+        } else if ((value === "if" || value === "unless") && next === "score") {
+            add(i + 3, false);
+            if (tokens[i + 4] && tokens[i + 4].value !== "matches") {
+                add(i + 6, false);
+            }
+        } else if (
+            value === "store" &&
+            (next === "result" || next === "success") &&
+            tokens[i + 2]?.value === "score"
+        ) {
+            add(i + 4, false);
+        } else if (
+            value === "trigger" &&
+            (i === 0 || tokens[i - 1].value === "run")
+        ) {
+            add(i + 1, false);
+        }
+    }
+
+    SCORES_PATTERN.lastIndex = 0;
+    let match;
+    while ((match = SCORES_PATTERN.exec(command)) !== null) {
+        const bodyStart = match.index + match[0].indexOf("{") + 1;
+        const entryPattern = /([^,=\s]+)\s*=/g;
+        let entry;
+        while ((entry = entryPattern.exec(match[1])) !== null) {
+            if (!isResourceName(entry[1])) continue;
+            matches.push({
+                name: entry[1],
+                start: bodyStart + entry.index,
+                length: entry[1].length,
+                isDefinition: false,
+            });
+        }
+    }
+
+    return matches;
+}
+
+export function findTagReferences(command: string): ResourceMatch[] {
+    const tokens = tokenizeCommand(command);
+    const matches: ResourceMatch[] = [];
+
+    for (let i = 0; i < tokens.length; i++) {
+        if (tokens[i].value !== "tag") continue;
+        if (i > 0 && tokens[i - 1].value !== "run") continue;
+
+        const name = tokens[i + 3];
+        if (
+            tokens[i + 2]?.value === "add" &&
+            name &&
+            isResourceName(name.value)
+        ) {
+            matches.push({
+                name: name.value,
+                start: name.start,
+                length: name.value.length,
+                isDefinition: true,
+            });
+        }
+    }
+
+    TAGS_PATTERN.lastIndex = 0;
+    let match;
+    while ((match = TAGS_PATTERN.exec(command)) !== null) {
+        const bodyStart = match.index + match[0].indexOf("[") + 1;
+        const entryPattern = /"([^"]*)"|([^,\s"]+)/g;
+        let entry;
+        while ((entry = entryPattern.exec(match[1])) !== null) {
+            const name = entry[1] ?? entry[2];
+            if (!isResourceName(name)) continue;
+            matches.push({
+                name,
+                start:
+                    bodyStart + entry.index + (entry[1] !== undefined ? 1 : 0),
+                length: name.length,
+                isDefinition: true,
+            });
+        }
+    }
+
+    SELECTOR_TAG_PATTERN.lastIndex = 0;
+    while ((match = SELECTOR_TAG_PATTERN.exec(command)) !== null) {
+        const name = match[1];
+        if (!isResourceName(name)) continue;
+        matches.push({
+            name,
+            start: match.index + match[0].length - name.length,
+            length: name.length,
+            isDefinition: false,
+        });
+    }
+
+    return matches;
+}
+
+export function findStorageReferences(command: string): StorageMatch[] {
+    const tokens = tokenizeCommand(command);
+    const matches: StorageMatch[] = [];
+
+    for (let i = 0; i < tokens.length; i++) {
+        if (tokens[i].value !== "storage") continue;
+
+        const id = tokens[i + 1];
+        if (!id || !isStorageId(id.value)) continue;
+
+        const previous = tokens[i - 1]?.value;
+        const isDefinition =
+            ((previous === "modify" || previous === "merge") &&
+                tokens[i - 2]?.value === "data") ||
+            ((previous === "result" || previous === "success") &&
+                tokens[i - 2]?.value === "store");
+
+        const path = tokens[i + 2];
+        if (path && isNbtPath(path.value)) {
+            matches.push({
+                name: id.value,
+                path: path.value,
+                start: path.start,
+                length: path.value.length,
+                isDefinition,
+            });
+        } else {
+            matches.push({
+                name: id.value,
+                start: id.start,
+                length: id.value.length,
+                isDefinition,
+            });
+        }
+    }
+
+    return matches;
+}
+
+export function isStorageId(value: string): boolean {
+    return /^[A-Za-z0-9_.\-]+(:[A-Za-z0-9_.\-/]*)?$/.test(value);
+}
+
+export function isNbtPath(value: string): boolean {
+    return value.length > 0 && !value.startsWith("{") && !value.includes("$(");
+}
+
+export function nbtPathsOverlap(
+    written: string | undefined,
+    read: string | undefined
+): boolean {
+    if (written === undefined || read === undefined) return true;
+
+    const normalize = (path: string) =>
+        path.replace(/\[[^\]]*\]|\{[^}]*\}/g, "").replace(/\.+$/, "");
+    const a = normalize(written);
+    const b = normalize(read);
+    return a === b || b.startsWith(a + ".") || a.startsWith(b + ".");
+}
+
+function isResourceName(value: string): boolean {
+    return /^[A-Za-z0-9_.+\-]+$/.test(value);
+}
+
+export interface MacroSubstitution {
+    text: string;
+    truncated: boolean;
+    toSourceOffset(offset: number): number | null;
+    overlapsMacro(offset: number, length: number): boolean;
+}
+
+export function substituteMacros(
+    command: string,
+    sample: (variable: string, prefix: string) => string | null
+): MacroSubstitution {
+    const segments: {
+        sourceStart: number;
+        sourceLength: number;
+        targetStart: number;
+        targetLength: number;
+    }[] = [];
+    const pattern = /\$\(([^)]+)\)/g;
+    let text = "";
+    let last = 0;
+    let truncated = false;
+
+    let match;
+    while ((match = pattern.exec(command)) !== null) {
+        text += command.substring(last, match.index);
+        last = match.index + match[0].length;
+
+        const value = sample(match[1], text);
+        if (value === null) {
+            truncated = true;
+            break;
+        }
+
+        segments.push({
+            sourceStart: match.index,
+            sourceLength: match[0].length,
+            targetStart: text.length,
+            targetLength: value.length,
+        });
+        text += value;
+    }
+
+    if (!truncated) {
+        text += command.substring(last);
+    }
+
+    return {
+        text,
+        truncated,
+        toSourceOffset(offset: number): number | null {
+            let delta = 0;
+            for (const segment of segments) {
+                if (offset < segment.targetStart) break;
+                if (offset < segment.targetStart + segment.targetLength) {
+                    return null;
+                }
+                delta =
+                    segment.sourceStart +
+                    segment.sourceLength -
+                    (segment.targetStart + segment.targetLength);
+            }
+            return offset + delta;
+        },
+        overlapsMacro(offset: number, length: number): boolean {
+            return segments.some(
+                segment =>
+                    offset < segment.targetStart + segment.targetLength &&
+                    segment.targetStart < offset + Math.max(length, 1)
+            );
+        },
+    };
+}
+
+export function findCommandStatementAt(
+    program: AST.Program,
+    pos: Position
+): CommandStatementNode | null {
+    let found: CommandStatementNode | null = null;
+
+    forEachNode(program, node => {
+        if (
+            (node.type === "CommandStatement" ||
+                node.type === "MacroCommandStatement") &&
+            containsPosition(node.commandRange, pos)
+        ) {
+            found = node;
+        } else if (
+            node.type === "ExecuteStatement" &&
+            containsPosition(node.subcommandRange, pos)
+        ) {
+            found = node;
+        }
+    });
+
+    return found;
+}
+
+export function validateCommandStatement(
+    node: CommandStatementNode,
+    typeOf: MacroTypeResolver
+): LocatedCommandError[] {
+    const spyglass = getSpyglassManager();
+    if (!spyglass.isInitialized()) return [];
+
+    if (node.type === "ExecuteStatement") {
+        const { start } = node.subcommandRange;
+        return spyglass
+            .validateCommand("execute " + node.subcommands, {
+                ignoreIncomplete: true,
+            })
+            .map(error => ({
+                ...error,
+                line: start.line,
+                character: start.character + Math.max(error.start - 8, 0),
+            }));
+    }
+
+    const line = node.commandRange.start.line;
+    if (node.type === "CommandStatement") {
+        return spyglass.validateCommand(node.command).map(error => ({
+            ...error,
+            line,
+            character: node.commandRange.start.character + error.start,
+        }));
+    }
+
+    const substitution = substituteMacros(node.command, (variable, prefix) =>
+        getMacroSample(node, variable, prefix, typeOf)
+    );
+    if (!substitution.text.trim()) return [];
+
+    const offset = getCommandOffset(node);
+    const errors: LocatedCommandError[] = [];
+    for (const error of spyglass.validateCommand(substitution.text, {
+        ignoreIncomplete: substitution.truncated,
+    })) {
+        if (substitution.overlapsMacro(error.start, error.length)) continue;
+        const start = substitution.toSourceOffset(error.start);
+        if (start === null) continue;
+
+        errors.push({ ...error, line, character: offset + start });
+    }
+    return errors;
+}
+
+function getMacroSample(
+    node: AST.MacroCommandStatement,
+    variable: string,
+    prefix: string,
+    typeOf: MacroTypeResolver
+): string | null {
+    const expansion = node.macroExpansions.find(
+        expansion => expansion.variable === variable
+    );
+
+    switch (expansion && typeOf(expansion)) {
+        case "int":
+            return "0";
+        case "float":
+        case "double":
+            return "0.0";
+        case "bool":
+            return "true";
+        default:
+            return getSpyglassManager().getArgumentSample(prefix);
+    }
+}
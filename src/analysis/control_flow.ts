@@ -0,0 +1,237 @@
+import * as AST from "../parser/ast";
+
+export interface BasicBlock {
+    id: number;
+    statements: AST.Statement[];
+    successors: BasicBlock[];
+}
+
+export interface ControlFlowGraph {
+    entry: BasicBlock;
+    exit: BasicBlock;
+    blocks: BasicBlock[];
+    returns: AST.ReturnStatement[];
+    executeReturns: AST.ReturnStatement[];
+    infiniteLoops: AST.WhileStatement[];
+    fallsThrough: boolean;
+    isReachable(statement: AST.Statement): boolean;
+}
+
+interface LoopContext {
+    after: BasicBlock;
+    hasBreak: boolean;
+    hasExit: boolean;
+}
+
+export function getConstantCondition(node: AST.Expression): boolean | null {
+    switch (node.type) {
+        case "BoolLiteral":
+            return node.value;
+        case "IntLiteral":
+        case "FloatLiteral":
+        case "DoubleLiteral":
+            return node.value !== 0;
+        case "StringLiteral":
+            return node.value !== "";
+        case "ParenExpression":
+            return getConstantCondition(node.expression);
+        case "UnaryExpression": {
+            if (node.operator !== "!") return null;
+            const value = getConstantCondition(node.argument);
+            return value === null ? null : !value;
+        }
+        default:
+            return null;
+    }
+}
+
+export class ControlFlowBuilder {
+    private blocks: BasicBlock[] = [];
+    private entry!: BasicBlock;
+    private current!: BasicBlock;
+    private exit!: BasicBlock;
+    private loops: LoopContext[] = [];
+    private blockOf = new Map<AST.Statement, BasicBlock>();
+    private returns: AST.ReturnStatement[] = [];
+    private executeReturns = new Set<AST.ReturnStatement>();
+    private executeDepth = 0;
+    private infiniteLoops: AST.WhileStatement[] = [];
+
+    build(statements: AST.Statement[]): ControlFlowGraph {
+        const entry = this.createBlock();
+        this.entry = entry;
+        this.exit = this.createBlock();
+        this.current = entry;
+
+        this.visitStatements(statements);
+        const end = this.current;
+        this.link(end, this.exit);
+
+        const reachable = this.findReachable(entry);
+        const blockOf = this.blockOf;
+        const returns = this.returns.filter(node =>
+            reachable.has(blockOf.get(node)!)
+        );
+
+        return {
+            entry,
+            exit: this.exit,
+            blocks: this.blocks,
+            returns,
+            executeReturns: returns.filter(node =>
+                this.executeReturns.has(node)
+            ),
+            infiniteLoops: this.infiniteLoops,
+            fallsThrough: reachable.has(end),
+            isReachable: statement => {
+                const block = blockOf.get(statement);
+                return block ? reachable.has(block) : true;
+            },
+        };
+    }
+
+    private visitStatements(statements: AST.Statement[]): void {
+        for (const statement of statements) {
+            this.visitStatement(statement);
+        }
+    }
+
+    private visitStatement(node: AST.Statement): void {
+        this.add(node);
+
+        switch (node.type) {
+            case "ReturnStatement":
+                this.returns.push(node);
+                if (this.executeDepth > 0) {
+                    this.executeReturns.add(node);
+                }
+                if (
+                    this.loops.length > 0 &&
+                    this.findReachable(this.entry).has(this.current)
+                ) {
+                    for (const loop of this.loops) {
+                        loop.hasExit = true;
+                    }
+                }
+                this.link(this.current, this.exit);
+                this.current = this.createBlock();
+                break;
+            case "BreakStatement": {
+                const loop = this.loops[this.loops.length - 1];
+                if (loop) {
+                    loop.hasBreak = true;
+                    this.link(this.current, loop.after);
+                }
+                this.current = this.createBlock();
+                break;
+            }
+            case "IfStatement":
+                this.visitIfStatement(node);
+                break;
+            case "WhileStatement":
+                this.visitWhileStatement(node);
+                break;
+            case "ExecuteStatement":
+                this.executeDepth++;
+                this.visitBranches(this.current, [node.body], true);
+                this.executeDepth--;
+                break;
+            case "BlockStatement":
+                this.visitStatements(node.body);
+                break;
+        }
+    }
+
+    private visitIfStatement(node: AST.IfStatement): void {
+        const branches = [
+            node.consequent,
+            ...node.elseIfClauses.map(clause => clause.consequent),
+        ];
+        if (node.alternate) {
+            branches.push(node.alternate);
+        }
+
+        this.visitBranches(this.current, branches, !node.alternate);
+    }
+
+    private visitBranches(
+        header: BasicBlock,
+        branches: AST.Statement[],
+        canSkip: boolean
+    ): void {
+        const after = this.createBlock();
+
+        for (const branch of branches) {
+            this.current = this.createBlock();
+            this.link(header, this.current);
+            this.visitStatement(branch);
+            this.link(this.current, after);
+        }
+        if (canSkip) {
+            this.link(header, after);
+        }
+
+        this.current = after;
+    }
+
+    private visitWhileStatement(node: AST.WhileStatement): void {
+        const condition = this.createBlock();
+        const after = this.createBlock();
+        const alwaysTrue = getConstantCondition(node.condition) === true;
+
+        this.link(this.current, condition);
+        this.blockOf.set(node, condition);
+        if (!alwaysTrue) {
+            this.link(condition, after);
+        }
+
+        const loop: LoopContext = { after, hasBreak: false, hasExit: false };
+        this.loops.push(loop);
+        this.current = this.createBlock();
+        this.link(condition, this.current);
+        this.visitStatement(node.body);
+        this.link(this.current, condition);
+        this.loops.pop();
+
+        if (alwaysTrue && !loop.hasBreak && !loop.hasExit) {
+            this.infiniteLoops.push(node);
+        }
+        this.current = after;
+    }
+
+    private add(node: AST.Statement): void {
+        this.current.statements.push(node);
+        this.blockOf.set(node, this.current);
+    }
+
+    private createBlock(): BasicBlock {
+        const block: BasicBlock = {
+            id: this.blocks.length,
+            statements: [],
+            successors: [],
+        };
+        this.blocks.push(block);
+        return block;
+    }
+
+    private link(from: BasicBlock, to: BasicBlock): void {
+        if (!from.successors.includes(to)) {
+            from.successors.push(to);
+        }
+    }
+
+    private findReachable(entry: BasicBlock): Set<BasicBlock> {
+        const reachable = new Set<BasicBlock>([entry]);
+        const pending = [entry];
+
+        while (pending.length > 0) {
+            for (const successor of pending.pop()!.successors) {
+                if (!reachable.has(successor)) {
+                    reachable.add(successor);
+                    pending.push(successor);
+                }
+            }
+        }
+        return reachable;
+    }
+}
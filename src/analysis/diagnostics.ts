@@ -1,59 +1,196 @@
 import * as vscode from "vscode";
 import * as AST from "../parser/ast";
-import { Scope, ScopeAnalyzer } from "./scope";
+import {
+    DeclarationConflict,
+    ParamInfo,
+    ResourceKind,
+    Scope,
+    ScopeAnalyzer,
+    Symbol,
+} from "./scope";
+import {
+    getCompoundFields,
+    getPropertyTypes,
+    isAssignable,
+    splitUnion,
+    TypeInference,
+} from "./type_inference";
+import { FlowTypes } from "./flow";
+import {
+    ControlFlowBuilder,
+    ControlFlowGraph,
+    getConstantCondition,
+} from "./control_flow";
+import { getModuleUri, WorkspaceIndex } from "./workspace";
+import {
+    DIAGNOSTIC_RULES,
+    getDiagnosticSettings,
+    resolveSeverity,
+    RuleId,
+} from "./rules";
+import { Suppressions } from "./suppressions";
+import {
+    CommandStatementNode,
+    getCommandFunctionCalls,
+    LocatedCommandError,
+    nbtPathsOverlap,
+    validateCommandStatement,
+} from "./commands";
 import { ParseError } from "../parser/parser";
-import { rangeToVscodeRange, Range } from "../utils/position";
+import { Token } from "../lexer/token";
+import { createRange, rangeToVscodeRange, Range } from "../utils/position";
 import {
-    getSpyglassManager,
-    CommandValidationError,
-} from "../minecraft/spyglass";
+    forEachNode,
+    getMacroNameRange,
+    getNbtExpressions,
+    isMemberProperty,
+} from "../utils/ast";
+
+const ENTRY_POINTS = ["tick", "load"];
+const REGISTRY_DOCS_URL = "https://minecraft.wiki/w/Java_Edition_data_values";
 
 export interface Diagnostic {
     range: vscode.Range;
     message: string;
     severity: vscode.DiagnosticSeverity;
     source: string;
+    code: RuleId;
+    target?: vscode.Uri;
+    tags?: vscode.DiagnosticTag[];
+    relatedInformation?: vscode.DiagnosticRelatedInformation[];
 }
 
 export class DiagnosticGenerator {
     private diagnostics: Diagnostic[] = [];
-    private scopeAnalyzer: ScopeAnalyzer;
+    private workspaceIndex: WorkspaceIndex;
+    private uri: vscode.Uri | null = null;
+    private program: AST.Program | null = null;
+    private importedModules = new Set<string>();
+    private flowTypes = new FlowTypes();
+    private typeInference = new TypeInference(
+        node => this.flowTypes.typeOf(node),
+        name => this.resolveModuleScope(name)
+    );
     private globalScope: Scope | null = null;
     private currentScope: Scope | null = null;
     private inLoop = 0;
     private inFunction = 0;
 
-    constructor() {
-        this.scopeAnalyzer = new ScopeAnalyzer();
+    constructor(workspaceIndex: WorkspaceIndex) {
+        this.workspaceIndex = workspaceIndex;
     }
 
     generate(
         program: AST.Program,
-        parserErrors: ParseError[]
+        parserErrors: ParseError[],
+        uri: vscode.Uri,
+        comments: Token[] = []
     ): vscode.Diagnostic[] {
         this.diagnostics = [];
+        this.uri = uri;
+        this.program = program;
+        this.importedModules.clear();
         this.inLoop = 0;
         this.inFunction = 0;
 
+        const settings = getDiagnosticSettings(uri);
+        if (!settings.enabled) {
+            return [];
+        }
+
         for (const error of parserErrors) {
-            this.diagnostics.push({
-                range: rangeToVscodeRange(error.range),
-                message: error.message,
-                severity: vscode.DiagnosticSeverity.Error,
-                source: "comet",
-            });
+            this.addDiagnostic(error.range, error.message, "syntax-error");
         }
 
-        this.globalScope = this.scopeAnalyzer.analyze(program);
+        const scopeAnalyzer = new ScopeAnalyzer(name =>
+            this.resolveModuleScope(name)
+        );
+        this.globalScope = scopeAnalyzer.analyze(program);
+        this.flowTypes = scopeAnalyzer.getFlowTypes();
         this.currentScope = this.globalScope;
 
+        for (const conflict of scopeAnalyzer.getDeclarationConflicts()) {
+            this.reportDeclarationConflict(conflict);
+        }
+
         this.visitProgram(program);
+        this.checkControlFlow(program);
+        this.checkUndefinedResources(
+            "objective",
+            "diagnostic.undefinedObjective",
+            "undefined-objective"
+        );
+        this.checkUndefinedResources(
+            "tag",
+            "diagnostic.undefinedTag",
+            "undefined-tag"
+        );
+        this.checkStorageReads();
+        this.checkUnusedSymbols();
+
+        const suppressions = new Suppressions(comments);
+        const result: vscode.Diagnostic[] = [];
+        for (const d of this.diagnostics) {
+            if (suppressions.isSuppressed(d.code, d.range.start.line)) continue;
+
+            const severity = resolveSeverity(d.code, d.severity, settings);
+            if (severity === null) continue;
 
-        return this.diagnostics.map(d => {
-            const diag = new vscode.Diagnostic(d.range, d.message, d.severity);
+            const diag = new vscode.Diagnostic(d.range, d.message, severity);
             diag.source = d.source;
-            return diag;
-        });
+            diag.code = d.target ? { value: d.code, target: d.target } : d.code;
+            if (d.tags) {
+                diag.tags = d.tags;
+            }
+            if (d.relatedInformation) {
+                diag.relatedInformation = d.relatedInformation;
+            }
+            result.push(diag);
+        }
+        return result;
+    }
+
+    private reportDeclarationConflict(conflict: DeclarationConflict): void {
+        const { symbol, previous } = conflict;
+        const relatedInformation =
+            previous.kind !== "builtin" && this.uri
+                ? [
+                      new vscode.DiagnosticRelatedInformation(
+                          new vscode.Location(
+                              this.uri,
+                              rangeToVscodeRange(previous.declarationRange)
+                          ),
+                          vscode.l10n.t(
+                              "diagnostic.previousDeclaration",
+                              previous.name
+                          )
+                      ),
+                  ]
+                : undefined;
+
+        if (conflict.kind === "redeclaration") {
+            this.addDiagnostic(
+                symbol.declarationRange,
+                vscode.l10n.t("diagnostic.redeclaration", symbol.name),
+                "redeclaration",
+                undefined,
+                relatedInformation
+            );
+            return;
+        }
+
+        this.addDiagnostic(
+            symbol.declarationRange,
+            vscode.l10n.t(
+                previous.kind === "builtin"
+                    ? "diagnostic.shadowedBuiltin"
+                    : "diagnostic.shadowedDeclaration",
+                symbol.name
+            ),
+            "shadowed-declaration",
+            undefined,
+            relatedInformation
+        );
     }
 
     private visitProgram(node: AST.Program): void {
@@ -62,6 +199,361 @@ export class DiagnosticGenerator {
         }
     }
 
+    private checkUndefinedResources(
+        kind: ResourceKind,
+        messageKey: string,
+        rule: RuleId
+    ): void {
+        if (!this.globalScope) return;
+
+        const local = this.globalScope.resources.filter(
+            resource => resource.kind === kind
+        );
+        const defined = new Set(
+            [...this.workspaceIndex.getResources(kind), ...local]
+                .filter(resource => resource.isDefinition)
+                .map(resource => resource.name)
+        );
+
+        for (const resource of local) {
+            if (resource.isDefinition || defined.has(resource.name)) continue;
+
+            this.addDiagnostic(
+                resource.range,
+                vscode.l10n.t(messageKey, resource.name),
+                rule
+            );
+        }
+    }
+
+    private checkStorageReads(): void {
+        if (!this.globalScope) return;
+
+        const local = this.globalScope.resources.filter(
+            resource => resource.kind === "storage"
+        );
+        const writes = [
+            ...this.workspaceIndex.getResources("storage"),
+            ...local,
+        ].filter(resource => resource.isDefinition);
+
+        for (const read of local) {
+            if (read.isDefinition) continue;
+
+            const storageWrites = writes.filter(
+                write => write.name === read.name
+            );
+            if (storageWrites.length === 0) {
+                this.addDiagnostic(
+                    read.range,
+                    vscode.l10n.t("diagnostic.unwrittenStorage", read.name),
+                    "unwritten-storage"
+                );
+            } else if (
+                !storageWrites.some(write =>
+                    nbtPathsOverlap(write.path, read.path)
+                )
+            ) {
+                this.addDiagnostic(
+                    read.range,
+                    vscode.l10n.t(
+                        "diagnostic.unwrittenStoragePath",
+                        read.path ?? "",
+                        read.name
+                    ),
+                    "unwritten-storage"
+                );
+            }
+        }
+    }
+
+    private checkControlFlow(program: AST.Program): void {
+        this.checkFlowGraph(program.body);
+
+        forEachNode(program, node => {
+            switch (node.type) {
+                case "FuncDeclaration":
+                    this.checkFunctionFlow(node);
+                    break;
+                case "IfStatement":
+                case "ElseIfClause":
+                    this.checkConstantCondition(node.condition);
+                    break;
+                case "WhileStatement":
+                    if (getConstantCondition(node.condition) !== true) {
+                        this.checkConstantCondition(node.condition);
+                    }
+                    break;
+            }
+        });
+    }
+
+    private checkFunctionFlow(node: AST.FuncDeclaration): void {
+        const cfg = this.checkFlowGraph(node.body.body);
+
+        // A value returned from inside an execute block is the usual early
+        // exit guard (`execute if ... run return 0`), so it alone does not
+        // make the function value-returning.
+        const valueReturns = cfg.returns.filter(
+            ret => ret.argument && !cfg.executeReturns.includes(ret)
+        );
+        if (valueReturns.length === 0) return;
+
+        const exits = cfg.returns
+            .filter(ret => !ret.argument)
+            .map(ret => ret.range);
+        if (cfg.fallsThrough) {
+            const { end } = node.body.range;
+            exits.push(
+                createRange(
+                    end.line,
+                    end.character - 1,
+                    end.line,
+                    end.character
+                )
+            );
+        }
+        if (exits.length === 0 || !this.uri) return;
+
+        const uri = this.uri;
+        this.addDiagnostic(
+            node.name.range,
+            vscode.l10n.t("diagnostic.inconsistentReturn", node.name.name),
+            "inconsistent-return",
+            undefined,
+            exits.map(
+                range =>
+                    new vscode.DiagnosticRelatedInformation(
+                        new vscode.Location(uri, rangeToVscodeRange(range)),
+                        vscode.l10n.t("diagnostic.returnsWithoutValue")
+                    )
+            )
+        );
+    }
+
+    private checkFlowGraph(statements: AST.Statement[]): ControlFlowGraph {
+        const cfg = new ControlFlowBuilder().build(statements);
+        this.checkUnreachable(statements, cfg);
+
+        for (const loop of cfg.infiniteLoops) {
+            this.addDiagnostic(
+                loop.condition.range,
+                vscode.l10n.t("diagnostic.infiniteLoop"),
+                "infinite-loop"
+            );
+        }
+        return cfg;
+    }
+
+    private checkUnreachable(
+        statements: AST.Statement[],
+        cfg: ControlFlowGraph
+    ): void {
+        const index = statements.findIndex(stmt => !cfg.isReachable(stmt));
+        if (index >= 0) {
+            const { start } = statements[index].range;
+            const { end } = statements[statements.length - 1].range;
+            this.addDiagnostic(
+                createRange(
+                    start.line,
+                    start.character,
+                    end.line,
+                    end.character
+                ),
+                vscode.l10n.t("diagnostic.unreachableCode"),
+                "unreachable-code",
+                [vscode.DiagnosticTag.Unnecessary]
+            );
+        }
+
+        const reachable = index >= 0 ? statements.slice(0, index) : statements;
+        for (const stmt of reachable) {
+            for (const child of this.getChildStatements(stmt)) {
+                this.checkUnreachable(child, cfg);
+            }
+        }
+    }
+
+    private getChildStatements(node: AST.Statement): AST.Statement[][] {
+        const asList = (stmt: AST.Statement): AST.Statement[] =>
+            stmt.type === "BlockStatement" ? stmt.body : [stmt];
+
+        switch (node.type) {
+            case "IfStatement":
+                return [
+                    asList(node.consequent),
+                    ...node.elseIfClauses.map(clause =>
+                        asList(clause.consequent)
+                    ),
+                    ...(node.alternate ? [asList(node.alternate)] : []),
+                ];
+            case "WhileStatement":
+                return [asList(node.body)];
+            case "ExecuteStatement":
+                return [node.body.body];
+            case "BlockStatement":
+                return [node.body];
+            default:
+                return [];
+        }
+    }
+
+    private checkConstantCondition(condition: AST.Expression): void {
+        const value = getConstantCondition(condition);
+        if (value === null) return;
+
+        this.addDiagnostic(
+            condition.range,
+            vscode.l10n.t("diagnostic.constantCondition", String(value)),
+            "constant-condition"
+        );
+    }
+
+    private checkUnusedSymbols(): void {
+        if (!this.program || !this.globalScope) return;
+
+        const used = this.findUsedSymbols(this.program, this.globalScope);
+        let external: Set<string> | null = null;
+
+        const visit = (scope: Scope): void => {
+            for (const symbol of scope.symbols.values()) {
+                if (used.has(symbol)) continue;
+
+                if (scope === this.globalScope) {
+                    external ??= this.findExternalReferences();
+                    if (external.has(symbol.name)) continue;
+                }
+
+                switch (symbol.kind) {
+                    case "variable":
+                        this.addDiagnostic(
+                            symbol.declarationRange,
+                            vscode.l10n.t(
+                                "diagnostic.unusedVariable",
+                                symbol.name
+                            ),
+                            "unused-variable",
+                            [vscode.DiagnosticTag.Unnecessary]
+                        );
+                        break;
+                    case "parameter":
+                        this.addDiagnostic(
+                            symbol.declarationRange,
+                            vscode.l10n.t(
+                                "diagnostic.unusedParameter",
+                                symbol.name
+                            ),
+                            "unused-parameter",
+                            [vscode.DiagnosticTag.Unnecessary]
+                        );
+                        break;
+                    case "function":
+                        if (ENTRY_POINTS.includes(symbol.name)) break;
+                        this.addDiagnostic(
+                            symbol.declarationRange,
+                            vscode.l10n.t(
+                                "diagnostic.unusedFunction",
+                                symbol.name
+                            ),
+                            "unused-function",
+                            [vscode.DiagnosticTag.Unnecessary]
+                        );
+                        break;
+                }
+            }
+            scope.children.forEach(visit);
+        };
+
+        visit(this.globalScope);
+    }
+
+    private findUsedSymbols(
+        program: AST.Program,
+        globalScope: Scope
+    ): Set<Symbol> {
+        const used = new Set<Symbol>();
+
+        forEachNode(program, (node, parent) => {
+            if (node.type === "Identifier") {
+                if (
+                    isMemberProperty(node, parent) ||
+                    ((parent?.type === "VarDeclaration" ||
+                        parent?.type === "FuncDeclaration") &&
+                        parent.name === node) ||
+                    (parent?.type === "AssignmentExpression" &&
+                        parent.target === node)
+                ) {
+                    return;
+                }
+
+                const symbol = globalScope
+                    .findScopeAt(node.range.start)
+                    .resolve(node.name);
+                if (symbol) used.add(symbol);
+            } else if (node.type === "MacroExpansion") {
+                const symbol = globalScope
+                    .findScopeAt(node.range.start)
+                    .resolve(node.variable);
+                if (symbol) used.add(symbol);
+            } else if (
+                node.type === "CommandStatement" ||
+                node.type === "MacroCommandStatement"
+            ) {
+                for (const call of getCommandFunctionCalls(node)) {
+                    const symbol = globalScope.resolveLocal(call.name);
+                    if (symbol) used.add(symbol);
+                }
+            }
+        });
+
+        return used;
+    }
+
+    private findExternalReferences(): Set<string> {
+        const names = new Set<string>();
+        if (!this.uri) return names;
+
+        const uri = this.uri.toString();
+        for (const module of this.workspaceIndex.getModules()) {
+            if (module.uri.toString() === uri) continue;
+
+            const { program, scope } = module.parseResult;
+            forEachNode(program, node => {
+                if (
+                    node.type === "CommandStatement" ||
+                    node.type === "MacroCommandStatement"
+                ) {
+                    for (const call of getCommandFunctionCalls(node)) {
+                        names.add(call.name);
+                    }
+                    return;
+                }
+
+                if (
+                    node.type !== "MemberExpression" ||
+                    node.computed ||
+                    node.object.type !== "Identifier" ||
+                    node.property.type !== "Identifier"
+                ) {
+                    return;
+                }
+
+                const objectSymbol = scope
+                    .findScopeAt(node.object.range.start)
+                    .resolve(node.object.name);
+                if (
+                    objectSymbol?.kind === "import" &&
+                    getModuleUri(module.uri, objectSymbol.name).toString() ===
+                        uri
+                ) {
+                    names.add(node.property.name);
+                }
+            });
+        }
+
+        return names;
+    }
+
     private visitStatement(node: AST.Statement): void {
         switch (node.type) {
             case "VarDeclaration":
@@ -116,7 +608,7 @@ export class DiagnosticGenerator {
             this.addDiagnostic(
                 node.name.range,
                 vscode.l10n.t("diagnostic.uppercaseFunction"),
-                vscode.DiagnosticSeverity.Warning
+                "uppercase-function"
             );
         }
 
@@ -144,7 +636,7 @@ export class DiagnosticGenerator {
             this.addDiagnostic(
                 node.consequent.range,
                 vscode.l10n.t("diagnostic.ifNoBraces"),
-                vscode.DiagnosticSeverity.Warning
+                "if-no-braces"
             );
         }
         this.visitStatement(node.consequent);
@@ -155,7 +647,7 @@ export class DiagnosticGenerator {
                     this.addDiagnostic(
                         elseIf.consequent.range,
                         vscode.l10n.t("diagnostic.elseIfNoBraces"),
-                        vscode.DiagnosticSeverity.Warning
+                        "else-if-no-braces"
                     );
                 }
 
@@ -169,7 +661,7 @@ export class DiagnosticGenerator {
                 this.addDiagnostic(
                     node.alternate.range,
                     vscode.l10n.t("diagnostic.elseNoBraces"),
-                    vscode.DiagnosticSeverity.Warning
+                    "else-no-braces"
                 );
             }
             this.visitStatement(node.alternate);
@@ -188,7 +680,7 @@ export class DiagnosticGenerator {
             this.addDiagnostic(
                 node.range,
                 vscode.l10n.t("diagnostic.returnOutsideFunction"),
-                vscode.DiagnosticSeverity.Error
+                "return-outside-function"
             );
         }
 
@@ -202,46 +694,83 @@ export class DiagnosticGenerator {
             this.addDiagnostic(
                 node.range,
                 vscode.l10n.t("diagnostic.breakOutsideLoop"),
-                vscode.DiagnosticSeverity.Error
+                "break-outside-loop"
             );
         }
     }
 
-    private visitImportStatement(node: AST.ImportStatement): void {}
+    private visitImportStatement(node: AST.ImportStatement): void {
+        const name = node.source.name;
+        if (!name || !this.uri) return;
 
-    private visitExecuteStatement(node: AST.ExecuteStatement): void {
-        const spyglass = getSpyglassManager();
-        if (spyglass.isInitialized()) {
-            const baseCommand = "execute " + node.subcommands;
+        if (this.importedModules.has(name)) {
+            this.addDiagnostic(
+                node.range,
+                vscode.l10n.t("diagnostic.duplicateImport", name),
+                "duplicate-import",
+                [vscode.DiagnosticTag.Unnecessary]
+            );
+            return;
+        }
+        this.importedModules.add(name);
 
-            const errors = spyglass.validateCommand(baseCommand, {
-                ignoreIncomplete: true,
-            });
+        if (!this.workspaceIndex.resolveImport(this.uri, name)) {
+            this.addDiagnostic(
+                node.source.range,
+                vscode.l10n.t("diagnostic.moduleNotFound", `${name}.planet`),
+                "module-not-found"
+            );
+            return;
+        }
 
-            for (const error of errors) {
-                const adjustedStart = error.start > 8 ? error.start - 8 : 0;
-                const startLine = node.subcommandRange.start.line;
-                const startCol =
-                    node.subcommandRange.start.character + adjustedStart;
-
-                this.diagnostics.push({
-                    range: new vscode.Range(
-                        startLine,
-                        startCol,
-                        startLine,
-                        startCol + error.length
-                    ),
-                    message: error.message,
-                    severity:
-                        error.severity === "error"
-                            ? vscode.DiagnosticSeverity.Error
-                            : error.severity === "warning"
-                              ? vscode.DiagnosticSeverity.Warning
-                              : vscode.DiagnosticSeverity.Information,
-                    source: "minecraft",
-                });
-            }
+        const cycle = this.workspaceIndex.findImportCycle(this.uri, name);
+        if (cycle) {
+            this.addDiagnostic(
+                node.source.range,
+                vscode.l10n.t("diagnostic.circularImport", cycle.join(" → ")),
+                "circular-import"
+            );
+        }
+
+        if (!this.isImportUsed(node)) {
+            this.addDiagnostic(
+                node.range,
+                vscode.l10n.t("diagnostic.unusedImport", name),
+                "unused-import",
+                [vscode.DiagnosticTag.Unnecessary]
+            );
         }
+    }
+
+    private isImportUsed(node: AST.ImportStatement): boolean {
+        if (!this.program || !this.globalScope) return true;
+
+        const globalScope = this.globalScope;
+        let used = false;
+        forEachNode(this.program, (child, parent) => {
+            if (
+                used ||
+                child.type !== "Identifier" ||
+                child === node.source ||
+                child.name !== node.source.name ||
+                isMemberProperty(child, parent)
+            ) {
+                return;
+            }
+
+            const symbol = globalScope
+                .findScopeAt(child.range.start)
+                .resolve(child.name);
+            if (symbol?.kind === "import") {
+                used = true;
+            }
+        });
+
+        return used;
+    }
+
+    private visitExecuteStatement(node: AST.ExecuteStatement): void {
+        this.checkCommand(node);
 
         const execScope = this.findScopeForRange(node.body.range);
         if (execScope) {
@@ -257,38 +786,64 @@ export class DiagnosticGenerator {
     }
 
     private visitCommandStatement(node: AST.CommandStatement): void {
-        const spyglass = getSpyglassManager();
-        if (spyglass.isInitialized()) {
-            const errors = spyglass.validateCommand(node.command);
-
-            for (const error of errors) {
-                const startLine = node.commandRange.start.line;
-                const startCol =
-                    node.commandRange.start.character + error.start;
-
-                this.diagnostics.push({
-                    range: new vscode.Range(
-                        startLine,
-                        startCol,
-                        startLine,
-                        startCol + error.length
-                    ),
-                    message: error.message,
-                    severity:
-                        error.severity === "error"
-                            ? vscode.DiagnosticSeverity.Error
-                            : error.severity === "warning"
-                              ? vscode.DiagnosticSeverity.Warning
-                              : vscode.DiagnosticSeverity.Information,
-                    source: "minecraft",
-                });
-            }
-        }
+        this.checkFunctionCalls(node);
+        this.checkCommand(node);
     }
 
     private visitMacroCommandStatement(
-        _node: AST.MacroCommandStatement
-    ): void {}
+        node: AST.MacroCommandStatement
+    ): void {
+        this.checkFunctionCalls(node);
+
+        for (const expansion of node.macroExpansions) {
+            if (this.currentScope?.resolve(expansion.variable)) continue;
+
+            this.addDiagnostic(
+                getMacroNameRange(expansion),
+                vscode.l10n.t(
+                    "diagnostic.undefinedMacroVariable",
+                    expansion.variable
+                ),
+                "undefined-macro-variable"
+            );
+        }
+
+        this.checkCommand(node);
+    }
+
+    private checkCommand(node: CommandStatementNode): void {
+        const errors = validateCommandStatement(node, expansion =>
+            this.flowTypes.typeOf(expansion)
+        );
+        for (const error of errors) {
+            this.addCommandError(error);
+        }
+    }
+
+    private checkFunctionCalls(
+        node: AST.CommandStatement | AST.MacroCommandStatement
+    ): void {
+        if (!this.uri) return;
+
+        for (const call of getCommandFunctionCalls(node)) {
+            const local = this.globalScope?.resolveLocal(call.name);
+            if (
+                local?.kind === "function" ||
+                this.workspaceIndex.resolveFunction(this.uri, call.name)
+            ) {
+                continue;
+            }
+
+            this.addDiagnostic(
+                call.range,
+                vscode.l10n.t(
+                    "diagnostic.undefinedMcFunction",
+                    `__namespace__:${call.name}`
+                ),
+                "undefined-mc-function"
+            );
+        }
+    }
 
     private visitBlockStatement(node: AST.BlockStatement): void {
         const blockScope = this.findScopeForRange(node.range);
@@ -331,6 +886,8 @@ export class DiagnosticGenerator {
                 this.visitExpression(node.object);
                 if (node.computed) {
                     this.visitExpression(node.property);
+                } else {
+                    this.visitModuleMember(node);
                 }
                 break;
             case "ArrayLiteral":
@@ -341,6 +898,11 @@ export class DiagnosticGenerator {
             case "ParenExpression":
                 this.visitExpression(node.expression);
                 break;
+            case "NbtCompound":
+                for (const expr of getNbtExpressions(node)) {
+                    this.visitExpression(expr);
+                }
+                break;
             default:
                 break;
         }
@@ -357,7 +919,7 @@ export class DiagnosticGenerator {
                 this.addDiagnostic(
                     node.range,
                     vscode.l10n.t("diagnostic.undefinedIdentifier", node.name),
-                    vscode.DiagnosticSeverity.Warning
+                    "undefined-identifier"
                 );
             }
         }
@@ -374,39 +936,43 @@ export class DiagnosticGenerator {
                             "diagnostic.undefinedFunction",
                             node.callee.name
                         ),
-                        vscode.DiagnosticSeverity.Warning
+                        "undefined-function"
                     );
                 } else if (symbol.kind === "builtin" && symbol.params) {
-                    const minParams = symbol.params.filter(
-                        p => !p.name.startsWith("...")
-                    ).length;
-                    const hasVariadic = symbol.params.some(p =>
-                        p.name.startsWith("...")
-                    );
-
-                    if (!hasVariadic && node.arguments.length !== minParams) {
-                        this.addDiagnostic(
-                            node.range,
-                            vscode.l10n.t(
-                                "diagnostic.expectedArguments",
-                                minParams,
-                                node.arguments.length
-                            ),
-                            vscode.DiagnosticSeverity.Warning
-                        );
-                    } else if (node.arguments.length < minParams) {
-                        this.addDiagnostic(
-                            node.range,
-                            vscode.l10n.t(
-                                "diagnostic.expectedAtLeast",
-                                minParams,
-                                node.arguments.length
-                            ),
-                            vscode.DiagnosticSeverity.Warning
-                        );
+                    if (this.checkArgumentCount(node, symbol.params)) {
+                        this.checkArgumentTypes(node, symbol.params);
                     }
+                } else if (symbol.kind === "function" && symbol.params) {
+                    this.checkArgumentCount(
+                        node,
+                        symbol.params,
+                        this.uri && this.getDeclaration(this.uri, symbol)
+                    );
                 }
             }
+        } else {
+            this.visitExpression(node.callee);
+
+            const resolved =
+                this.uri &&
+                this.currentScope &&
+                node.callee.type === "MemberExpression"
+                    ? this.workspaceIndex.resolveMember(
+                          this.uri,
+                          this.currentScope,
+                          node.callee
+                      )
+                    : null;
+            if (
+                resolved?.symbol.kind === "function" &&
+                resolved.symbol.params
+            ) {
+                this.checkArgumentCount(
+                    node,
+                    resolved.symbol.params,
+                    this.getDeclaration(resolved.module.uri, resolved.symbol)
+                );
+            }
         }
 
         for (const arg of node.arguments) {
@@ -414,6 +980,158 @@ export class DiagnosticGenerator {
         }
     }
 
+    private checkArgumentCount(
+        node: AST.CallExpression,
+        params: ParamInfo[],
+        declaration?: vscode.DiagnosticRelatedInformation | null
+    ): boolean {
+        const required = params.filter(p => !p.name.startsWith("...")).length;
+        const hasVariadic = params.some(p => p.name.startsWith("..."));
+        const args = node.arguments;
+
+        let range: Range;
+        if (!hasVariadic && args.length > required) {
+            range = {
+                start: args[required].range.start,
+                end: args[args.length - 1].range.end,
+            };
+        } else if (args.length < required) {
+            range = {
+                start: {
+                    line: node.range.end.line,
+                    character: Math.max(node.range.end.character - 1, 0),
+                },
+                end: node.range.end,
+            };
+        } else {
+            return true;
+        }
+
+        this.addDiagnostic(
+            range,
+            vscode.l10n.t(
+                hasVariadic
+                    ? "diagnostic.expectedAtLeast"
+                    : "diagnostic.expectedArguments",
+                required,
+                args.length
+            ),
+            "argument-count",
+            undefined,
+            declaration ? [declaration] : undefined
+        );
+        return false;
+    }
+
+    private checkArgumentTypes(
+        node: AST.CallExpression,
+        params: ParamInfo[]
+    ): void {
+        const scope = this.currentScope;
+        if (!scope) return;
+
+        params.forEach((param, index) => {
+            const arg = node.arguments[index];
+            if (!arg || !param.type || param.name.startsWith("...")) return;
+
+            const type = this.typeInference.infer(arg, scope);
+            if (!isAssignable(type, param.type)) {
+                this.addDiagnostic(
+                    arg.range,
+                    vscode.l10n.t(
+                        "diagnostic.argumentType",
+                        type,
+                        param.name,
+                        param.type
+                    ),
+                    "argument-type"
+                );
+            }
+        });
+    }
+
+    private getDeclaration(
+        uri: vscode.Uri,
+        symbol: Symbol
+    ): vscode.DiagnosticRelatedInformation {
+        return new vscode.DiagnosticRelatedInformation(
+            new vscode.Location(
+                uri,
+                rangeToVscodeRange(symbol.declarationRange)
+            ),
+            vscode.l10n.t("diagnostic.functionDeclaredHere", symbol.name)
+        );
+    }
+
+    private visitModuleMember(node: AST.MemberExpression): void {
+        if (node.object.type !== "Identifier") {
+            this.visitProperty(node);
+            return;
+        }
+        if (
+            !this.uri ||
+            !this.currentScope ||
+            node.property.type !== "Identifier"
+        ) {
+            return;
+        }
+
+        const objectSymbol = this.currentScope.resolve(node.object.name);
+        if (objectSymbol?.kind !== "import") {
+            this.visitProperty(node);
+            return;
+        }
+
+        const module = this.workspaceIndex.resolveImport(
+            this.uri,
+            objectSymbol.name
+        );
+        if (module && !module.exports.has(node.property.name)) {
+            this.addDiagnostic(
+                node.property.range,
+                vscode.l10n.t(
+                    "diagnostic.undefinedModuleMember",
+                    module.name,
+                    node.property.name
+                ),
+                "undefined-module-member"
+            );
+        }
+    }
+
+    private visitProperty(node: AST.MemberExpression): void {
+        if (!this.currentScope || node.property.type !== "Identifier") {
+            return;
+        }
+
+        const objectType = this.typeInference.infer(
+            node.object,
+            this.currentScope
+        );
+        const parts = splitUnion(objectType);
+        if (parts.some(part => !getCompoundFields(part))) {
+            return;
+        }
+
+        if (!getPropertyTypes(objectType)?.has(node.property.name)) {
+            this.addDiagnostic(
+                node.property.range,
+                vscode.l10n.t(
+                    "diagnostic.unknownProperty",
+                    node.property.name,
+                    objectType
+                ),
+                "unknown-property"
+            );
+        }
+    }
+
+    private resolveModuleScope(name: string): Scope | null {
+        return this.uri
+            ? this.workspaceIndex.resolveImportScope(this.uri, name)
+            : null;
+    }
+
     private findScopeForRange(range: Range): Scope | null {
         if (!this.globalScope) return null;
 
@@ -437,13 +1155,42 @@ export class DiagnosticGenerator {
     private addDiagnostic(
         range: Range,
         message: string,
-        severity: vscode.DiagnosticSeverity
+        rule: RuleId,
+        tags?: vscode.DiagnosticTag[],
+        relatedInformation?: vscode.DiagnosticRelatedInformation[]
     ): void {
         this.diagnostics.push({
             range: rangeToVscodeRange(range),
             message,
-            severity,
+            severity: DIAGNOSTIC_RULES[rule],
             source: "comet",
+            code: rule,
+            tags,
+            relatedInformation,
+        });
+    }
+
+    private addCommandError(error: LocatedCommandError): void {
+        const { line, character } = error;
+        this.diagnostics.push({
+            range: new vscode.Range(
+                line,
+                character,
+                line,
+                character + error.length
+            ),
+            message: error.message,
+            severity:
+                error.severity === "error"
+                    ? vscode.DiagnosticSeverity.Error
+                    : error.severity === "warning"
+                      ? vscode.DiagnosticSeverity.Warning
+                      : vscode.DiagnosticSeverity.Information,
+            source: "minecraft",
+            code: "mc-command",
+            target: error.registry
+                ? vscode.Uri.parse(REGISTRY_DOCS_URL)
+                : undefined,
         });
     }
 }
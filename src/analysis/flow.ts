@@ -0,0 +1,443 @@
+import * as AST from "../parser/ast";
+import { getNbtExpressions } from "../utils/ast";
+import { comparePosition, containsPosition, Position } from "../utils/position";
+import { ModuleResolver, Scope, Symbol } from "./scope";
+import {
+    TypeInference,
+    unifyTypes,
+    withElementType,
+} from "./type_inference";
+
+type TypedNode = AST.Identifier | AST.MacroExpansion;
+
+interface TypedOccurrence {
+    node: TypedNode;
+    symbol: Symbol;
+    type: string;
+}
+
+export class FlowTypes {
+    private occurrences = new Map<TypedNode, TypedOccurrence>();
+    private byLine = new Map<number, TypedOccurrence[]>();
+    private bySymbol = new Map<Symbol, TypedOccurrence[]>();
+
+    set(node: TypedNode, symbol: Symbol, type: string): void {
+        const existing = this.occurrences.get(node);
+        if (existing) {
+            existing.type = type;
+            return;
+        }
+
+        const occurrence = { node, symbol, type };
+        this.occurrences.set(node, occurrence);
+        this.index(this.byLine, node.range.start.line, occurrence);
+        this.index(this.bySymbol, symbol, occurrence);
+    }
+
+    typeOf(node: TypedNode): string | undefined {
+        return this.occurrences.get(node)?.type;
+    }
+
+    typeAt(position: Position): string | undefined {
+        for (const { node, type } of this.byLine.get(position.line) ?? []) {
+            if (containsPosition(node.range, position)) {
+                return type;
+            }
+        }
+        return undefined;
+    }
+
+    symbolTypeAt(symbol: Symbol, position: Position): string | undefined {
+        let latest: TypedOccurrence | undefined;
+        for (const occurrence of this.bySymbol.get(symbol) ?? []) {
+            if (
+                comparePosition(occurrence.node.range.start, position) <= 0 &&
+                (!latest ||
+                    comparePosition(
+                        latest.node.range.start,
+                        occurrence.node.range.start
+                    ) < 0)
+            ) {
+                latest = occurrence;
+            }
+        }
+        return latest?.type;
+    }
+
+    private index<K>(
+        map: Map<K, TypedOccurrence[]>,
+        key: K,
+        occurrence: TypedOccurrence
+    ): void {
+        const list = map.get(key);
+        if (list) {
+            list.push(occurrence);
+        } else {
+            map.set(key, [occurrence]);
+        }
+    }
+}
+
+export interface FlowResult {
+    types: FlowTypes;
+    returnTypes: Map<Symbol, string>;
+    argumentTypes: Map<Symbol, string[]>;
+    globalTypes: Map<Symbol, string>;
+}
+
+type Environment = Map<Symbol, string>;
+
+export class FlowAnalyzer {
+    private globalScope: Scope;
+    private typeInference: TypeInference;
+    private env: Environment = new Map();
+    private types = new FlowTypes();
+    private returns = new Map<Symbol, string[]>();
+    private argumentTypes = new Map<Symbol, string[][]>();
+    private globalTypes: Map<Symbol, string>;
+    private globalAssignments = new Map<Symbol, string[]>();
+    private currentFunction: Symbol | null = null;
+
+    constructor(
+        globalScope: Scope,
+        resolveModule?: ModuleResolver,
+        globalTypes: Map<Symbol, string> = new Map()
+    ) {
+        this.globalScope = globalScope;
+        this.globalTypes = globalTypes;
+        this.typeInference = new TypeInference(
+            (node, symbol) => this.env.get(symbol),
+            resolveModule
+        );
+    }
+
+    analyze(program: AST.Program): FlowResult {
+        this.visitStatements(program.body);
+
+        const returnTypes = new Map<Symbol, string>();
+        for (const [symbol, types] of this.returns) {
+            returnTypes.set(
+                symbol,
+                types.length > 0 ? unifyTypes(types) : "void"
+            );
+        }
+
+        const argumentTypes = new Map<Symbol, string[]>();
+        for (const [symbol, calls] of this.argumentTypes) {
+            argumentTypes.set(
+                symbol,
+                (symbol.params ?? []).map((_, index) =>
+                    unifyTypes(calls.map(args => args[index] ?? "never"))
+                )
+            );
+        }
+
+        const globalTypes = new Map<Symbol, string>();
+        for (const [symbol, types] of this.globalAssignments) {
+            globalTypes.set(symbol, unifyTypes(types));
+        }
+
+        return { types: this.types, returnTypes, argumentTypes, globalTypes };
+    }
+
+    private visitStatements(statements: AST.Statement[]): boolean {
+        let reachable = true;
+        for (const statement of statements) {
+            if (!this.visitStatement(statement)) {
+                reachable = false;
+            }
+        }
+        return reachable;
+    }
+
+    private visitStatement(node: AST.Statement): boolean {
+        switch (node.type) {
+            case "VarDeclaration":
+                this.visitVarDeclaration(node);
+                return true;
+            case "FuncDeclaration":
+                this.visitFuncDeclaration(node);
+                return true;
+            case "IfStatement":
+                return this.visitIfStatement(node);
+            case "WhileStatement":
+                this.visitWhileStatement(node);
+                return true;
+            case "ReturnStatement":
+                if (node.argument) {
+                    this.visitExpression(node.argument);
+                }
+                if (this.currentFunction) {
+                    this.returns
+                        .get(this.currentFunction)
+                        ?.push(
+                            node.argument ? this.infer(node.argument) : "void"
+                        );
+                }
+                return false;
+            case "BreakStatement":
+                return false;
+            case "ExecuteStatement":
+                this.visitExecuteStatement(node);
+                return true;
+            case "MacroCommandStatement":
+                for (const expansion of node.macroExpansions) {
+                    const symbol = this.resolve(
+                        expansion.variable,
+                        expansion.range.start
+                    );
+                    if (symbol) {
+                        this.types.set(
+                            expansion,
+                            symbol,
+                            this.env.get(symbol) ?? "any"
+                        );
+                    }
+                }
+                return true;
+            case "ExpressionStatement":
+                this.visitExpression(node.expression);
+                return true;
+            case "BlockStatement":
+                return this.visitStatements(node.body);
+            default:
+                return true;
+        }
+    }
+
+    private visitVarDeclaration(node: AST.VarDeclaration): void {
+        if (node.init) {
+            this.visitExpression(node.init);
+        }
+
+        const symbol = this.resolve(node.name.name, node.name.range.start);
+        if (symbol) {
+            this.assign(
+                node.name,
+                symbol,
+                node.init ? this.infer(node.init) : "any"
+            );
+        }
+    }
+
+    private visitFuncDeclaration(node: AST.FuncDeclaration): void {
+        const symbol = this.resolve(node.name.name, node.name.range.start);
+        const previousEnv = this.env;
+        const previousFunction = this.currentFunction;
+
+        this.env = new Map([...previousEnv, ...this.globalTypes]);
+        this.currentFunction = symbol?.kind === "function" ? symbol : null;
+        if (this.currentFunction) {
+            this.returns.set(this.currentFunction, []);
+        }
+
+        node.params.forEach((param, index) => {
+            const paramSymbol = this.resolve(
+                param.name.name,
+                node.body.range.start
+            );
+            if (paramSymbol?.kind === "parameter") {
+                this.assign(
+                    param.name,
+                    paramSymbol,
+                    symbol?.params?.[index]?.type ?? "any"
+                );
+            }
+        });
+
+        this.visitStatements(node.body.body);
+
+        this.env = previousEnv;
+        this.currentFunction = previousFunction;
+    }
+
+    private visitIfStatement(node: AST.IfStatement): boolean {
+        const branches: AST.Statement[] = [node.consequent];
+        this.visitExpression(node.condition);
+        for (const elseIf of node.elseIfClauses) {
+            this.visitExpression(elseIf.condition);
+            branches.push(elseIf.consequent);
+        }
+
+        const before = this.env;
+        const outcomes: Environment[] = node.alternate ? [] : [before];
+        if (node.alternate) {
+            branches.push(node.alternate);
+        }
+
+        for (const branch of branches) {
+            this.env = new Map(before);
+            if (this.visitStatement(branch)) {
+                outcomes.push(this.env);
+            }
+        }
+
+        if (outcomes.length === 0) {
+            this.env = before;
+            return false;
+        }
+
+        this.env = this.merge(outcomes);
+        return true;
+    }
+
+    private visitExecuteStatement(node: AST.ExecuteStatement): void {
+        const before = this.env;
+
+        this.env = new Map(before);
+        if (!this.visitStatements(node.body.body)) {
+            this.env = before;
+            return;
+        }
+
+        this.env = this.merge([before, this.env]);
+    }
+
+    private visitWhileStatement(node: AST.WhileStatement): void {
+        const before = this.env;
+
+        this.visitExpression(node.condition);
+        this.env = new Map(before);
+        this.visitStatement(node.body);
+
+        this.env = this.merge([before, this.env]);
+        const entry = this.env;
+        this.visitExpression(node.condition);
+        this.env = new Map(entry);
+        this.visitStatement(node.body);
+
+        this.env = this.merge([entry, this.env]);
+    }
+
+    private visitExpression(node: AST.Expression): void {
+        switch (node.type) {
+            case "Identifier": {
+                const symbol = this.resolve(node.name, node.range.start);
+                if (symbol) {
+                    this.types.set(node, symbol, this.infer(node));
+                }
+                break;
+            }
+            case "BinaryExpression":
+                this.visitExpression(node.left);
+                this.visitExpression(node.right);
+                break;
+            case "UnaryExpression":
+                this.visitExpression(node.argument);
+                break;
+            case "AssignmentExpression":
+                this.visitExpression(node.value);
+                if (node.target.type === "Identifier") {
+                    const symbol = this.resolve(
+                        node.target.name,
+                        node.target.range.start
+                    );
+                    if (symbol) {
+                        this.assign(
+                            node.target,
+                            symbol,
+                            this.infer(node.value)
+                        );
+                    }
+                } else {
+                    this.visitExpression(node.target);
+                }
+                break;
+            case "CallExpression":
+                this.visitCall(node);
+                break;
+            case "MemberExpression":
+                this.visitExpression(node.object);
+                if (node.computed) {
+                    this.visitExpression(node.property);
+                }
+                break;
+            case "ArrayLiteral":
+                for (const element of node.elements) {
+                    this.visitExpression(element);
+                }
+                break;
+            case "ParenExpression":
+                this.visitExpression(node.expression);
+                break;
+            case "NbtCompound":
+                for (const expr of getNbtExpressions(node)) {
+                    this.visitExpression(expr);
+                }
+                break;
+        }
+    }
+
+    private visitCall(node: AST.CallExpression): void {
+        if (node.callee.type === "MemberExpression") {
+            this.visitExpression(node.callee);
+        }
+        for (const arg of node.arguments) {
+            this.visitExpression(arg);
+        }
+
+        if (node.callee.type !== "Identifier") return;
+
+        const symbol = this.resolve(node.callee.name, node.callee.range.start);
+        if (symbol?.kind === "builtin" && symbol.name === "append") {
+            this.visitAppend(node);
+            return;
+        }
+        if (symbol?.kind !== "function") return;
+
+        const calls = this.argumentTypes.get(symbol) ?? [];
+        calls.push(node.arguments.map(arg => this.infer(arg)));
+        this.argumentTypes.set(symbol, calls);
+    }
+
+    private visitAppend(node: AST.CallExpression): void {
+        const [array, value] = node.arguments;
+        if (array?.type !== "Identifier" || !value) return;
+
+        const symbol = this.resolve(array.name, array.range.start);
+        if (symbol?.kind !== "variable" && symbol?.kind !== "parameter") {
+            return;
+        }
+
+        this.assign(
+            array,
+            symbol,
+            withElementType(this.infer(array), this.infer(value))
+        );
+    }
+
+    private assign(node: AST.Identifier, symbol: Symbol, type: string): void {
+        this.env.set(symbol, type);
+        this.types.set(node, symbol, type);
+
+        if (this.globalScope.resolveLocal(symbol.name) === symbol) {
+            const assignments = this.globalAssignments.get(symbol) ?? [];
+            assignments.push(type);
+            this.globalAssignments.set(symbol, assignments);
+        }
+    }
+
+    private merge(environments: Environment[]): Environment {
+        const merged: Environment = new Map();
+        const symbols = new Set(environments.flatMap(env => [...env.keys()]));
+
+        for (const symbol of symbols) {
+            const types = environments
+                .map(env => env.get(symbol))
+                .filter((type): type is string => type !== undefined);
+            merged.set(symbol, unifyTypes(types));
+        }
+        return merged;
+    }
+
+    private infer(node: AST.Expression): string {
+        return this.typeInference.infer(
+            node,
+            this.globalScope.findScopeAt(node.range.start)
+        );
+    }
+
+    private resolve(name: string, position: Position): Symbol | null {
+        return this.globalScope.findScopeAt(position).resolve(name);
+    }
+}
@@ -0,0 +1,249 @@
+import * as vscode from "vscode";
+import * as AST from "../parser/ast";
+import { Position, Range } from "../utils/position";
+import {
+    findIdentifierAtPosition,
+    findMacroExpansionAt,
+    forEachNode,
+    getMacroNameRange,
+    isMemberProperty,
+} from "../utils/ast";
+import { findFunctionCallAt, getCommandFunctionCalls } from "./commands";
+import { Scope, Symbol } from "./scope";
+import { getModuleUri, ModuleInfo, WorkspaceIndex } from "./workspace";
+
+export interface SymbolTarget {
+    symbol: Symbol;
+    module: ModuleInfo;
+    range: Range;
+}
+
+export interface SymbolReference {
+    uri: vscode.Uri;
+    range: Range;
+    isDeclaration: boolean;
+}
+
+export class ReferenceFinder {
+    private workspaceIndex: WorkspaceIndex;
+    private declarations = new WeakMap<Scope, Map<string, Symbol>>();
+
+    constructor(workspaceIndex: WorkspaceIndex) {
+        this.workspaceIndex = workspaceIndex;
+    }
+
+    findTarget(
+        document: vscode.TextDocument,
+        pos: Position
+    ): SymbolTarget | null {
+        const module = this.workspaceIndex.update(document);
+        const { program, scope } = module.parseResult;
+
+        const found = findIdentifierAtPosition(program, pos);
+        if (found) {
+            if (found.member) {
+                const resolved = this.workspaceIndex.resolveMember(
+                    module.uri,
+                    scope.findScopeAt(pos),
+                    found.member
+                );
+                if (!resolved) return null;
+
+                return {
+                    symbol: resolved.symbol,
+                    module: resolved.module,
+                    range: found.identifier.range,
+                };
+            }
+
+            const symbol = this.resolveIdentifier(module, found.identifier);
+            if (!symbol) return null;
+
+            return { symbol, module, range: found.identifier.range };
+        }
+
+        const call = findFunctionCallAt(program, pos);
+        if (call) {
+            const resolved = this.workspaceIndex.resolveFunction(
+                module.uri,
+                call.name
+            );
+            return resolved ? { ...resolved, range: call.range } : null;
+        }
+
+        const expansion = findMacroExpansionAt(program, pos);
+        if (expansion) {
+            const symbol = scope
+                .findScopeAt(expansion.range.start)
+                .resolve(expansion.variable);
+            if (symbol) {
+                return { symbol, module, range: getMacroNameRange(expansion) };
+            }
+        }
+
+        return null;
+    }
+
+    findReferences(target: SymbolTarget): SymbolReference[] {
+        const { symbol, module } = target;
+        const references: SymbolReference[] = [];
+
+        forEachNode(module.parseResult.program, (node, parent) => {
+            if (node.type === "Identifier") {
+                if (isMemberProperty(node, parent)) return;
+                if (this.resolveIdentifier(module, node) !== symbol) return;
+
+                references.push({
+                    uri: module.uri,
+                    range: node.range,
+                    isDeclaration: this.isSameRange(
+                        node.range,
+                        symbol.declarationRange
+                    ),
+                });
+            } else if (node.type === "MacroExpansion") {
+                const resolved = module.parseResult.scope
+                    .findScopeAt(node.range.start)
+                    .resolve(node.variable);
+                if (resolved !== symbol) return;
+
+                references.push({
+                    uri: module.uri,
+                    range: getMacroNameRange(node),
+                    isDeclaration: false,
+                });
+            }
+        });
+
+        if (module.exports.get(symbol.name) !== symbol) {
+            return references;
+        }
+
+        for (const other of this.workspaceIndex.getModules()) {
+            if (other.uri.toString() !== module.uri.toString()) {
+                references.push(
+                    ...this.findMemberReferences(other, module, symbol)
+                );
+            }
+
+            if (symbol.kind === "function") {
+                references.push(...this.findCommandReferences(other, symbol));
+            }
+        }
+
+        return references;
+    }
+
+    private findMemberReferences(
+        importer: ModuleInfo,
+        module: ModuleInfo,
+        symbol: Symbol
+    ): SymbolReference[] {
+        const references: SymbolReference[] = [];
+        const { program, scope } = importer.parseResult;
+
+        forEachNode(program, node => {
+            if (
+                node.type !== "MemberExpression" ||
+                node.computed ||
+                node.object.type !== "Identifier" ||
+                node.property.type !== "Identifier" ||
+                node.property.name !== symbol.name
+            ) {
+                return;
+            }
+
+            const objectSymbol = scope
+                .findScopeAt(node.object.range.start)
+                .resolve(node.object.name);
+            if (objectSymbol?.kind !== "import") return;
+
+            const importedUri = getModuleUri(importer.uri, objectSymbol.name);
+            if (importedUri.toString() !== module.uri.toString()) return;
+
+            references.push({
+                uri: importer.uri,
+                range: node.property.range,
+                isDeclaration: false,
+            });
+        });
+
+        return references;
+    }
+
+    private findCommandReferences(
+        module: ModuleInfo,
+        symbol: Symbol
+    ): SymbolReference[] {
+        const references: SymbolReference[] = [];
+
+        forEachNode(module.parseResult.program, node => {
+            if (
+                node.type !== "CommandStatement" &&
+                node.type !== "MacroCommandStatement"
+            ) {
+                return;
+            }
+
+            for (const call of getCommandFunctionCalls(node)) {
+                if (call.name !== symbol.name) continue;
+
+                references.push({
+                    uri: module.uri,
+                    range: call.range,
+                    isDeclaration: false,
+                });
+            }
+        });
+
+        return references;
+    }
+
+    private resolveIdentifier(
+        module: ModuleInfo,
+        node: AST.Identifier
+    ): Symbol | null {
+        const scope = module.parseResult.scope;
+        const declared = this.getDeclarations(scope).get(
+            this.positionKey(node.range.start)
+        );
+        if (declared && declared.name === node.name) {
+            return declared;
+        }
+        return scope.findScopeAt(node.range.start).resolve(node.name);
+    }
+
+    private getDeclarations(scope: Scope): Map<string, Symbol> {
+        let declarations = this.declarations.get(scope);
+        if (declarations) return declarations;
+
+        declarations = new Map();
+        const collect = (current: Scope) => {
+            for (const symbol of current.symbols.values()) {
+                if (symbol.kind === "builtin") continue;
+                declarations!.set(
+                    this.positionKey(symbol.declarationRange.start),
+                    symbol
+                );
+            }
+            current.children.forEach(collect);
+        };
+        collect(scope);
+
+        this.declarations.set(scope, declarations);
+        return declarations;
+    }
+
+    private isSameRange(a: Range, b: Range): boolean {
+        return (
+            a.start.line === b.start.line &&
+            a.start.character === b.start.character &&
+            a.end.line === b.end.line &&
+            a.end.character === b.end.character
+        );
+    }
+
+    private positionKey(position: Position): string {
+        return `${position.line}:${position.character}`;
+    }
+}
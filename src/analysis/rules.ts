@@ -0,0 +1,80 @@
+import * as vscode from "vscode";
+
+export type RuleSeverity = "error" | "warning" | "info" | "off";
+
+export const DIAGNOSTIC_RULES = {
+    "syntax-error": vscode.DiagnosticSeverity.Error,
+    "undefined-identifier": vscode.DiagnosticSeverity.Warning,
+    "undefined-function": vscode.DiagnosticSeverity.Warning,
+    "redeclaration": vscode.DiagnosticSeverity.Error,
+    "shadowed-declaration": vscode.DiagnosticSeverity.Warning,
+    "argument-count": vscode.DiagnosticSeverity.Warning,
+    "argument-type": vscode.DiagnosticSeverity.Warning,
+    "uppercase-function": vscode.DiagnosticSeverity.Warning,
+    "if-no-braces": vscode.DiagnosticSeverity.Warning,
+    "else-if-no-braces": vscode.DiagnosticSeverity.Warning,
+    "else-no-braces": vscode.DiagnosticSeverity.Warning,
+    "return-outside-function": vscode.DiagnosticSeverity.Error,
+    "break-outside-loop": vscode.DiagnosticSeverity.Error,
+    "unreachable-code": vscode.DiagnosticSeverity.Warning,
+    "infinite-loop": vscode.DiagnosticSeverity.Warning,
+    "inconsistent-return": vscode.DiagnosticSeverity.Warning,
+    "constant-condition": vscode.DiagnosticSeverity.Warning,
+    "undefined-module-member": vscode.DiagnosticSeverity.Warning,
+    "unknown-property": vscode.DiagnosticSeverity.Warning,
+    "module-not-found": vscode.DiagnosticSeverity.Error,
+    "circular-import": vscode.DiagnosticSeverity.Error,
+    "duplicate-import": vscode.DiagnosticSeverity.Warning,
+    "unused-import": vscode.DiagnosticSeverity.Warning,
+    "unused-variable": vscode.DiagnosticSeverity.Warning,
+    "unused-parameter": vscode.DiagnosticSeverity.Warning,
+    "unused-function": vscode.DiagnosticSeverity.Warning,
+    "undefined-objective": vscode.DiagnosticSeverity.Warning,
+    "undefined-tag": vscode.DiagnosticSeverity.Warning,
+    "unwritten-storage": vscode.DiagnosticSeverity.Warning,
+    "undefined-mc-function": vscode.DiagnosticSeverity.Error,
+    "undefined-macro-variable": vscode.DiagnosticSeverity.Warning,
+    "mc-command": vscode.DiagnosticSeverity.Error,
+};
+
+export type RuleId = keyof typeof DIAGNOSTIC_RULES;
+
+export interface DiagnosticSettings {
+    enabled: boolean;
+    rules: Partial<Record<string, RuleSeverity>>;
+}
+
+export function getDiagnosticSettings(uri?: vscode.Uri): DiagnosticSettings {
+    const config = vscode.workspace.getConfiguration("comet.diagnostics", uri);
+    const rules = {
+        "undefined-identifier": config.get<RuleSeverity>(
+            "undefinedVariable",
+            "warning"
+        ),
+        ...config.get<Partial<Record<string, RuleSeverity>>>("rules", {}),
+    };
+
+    return {
+        enabled: config.get<boolean>("enabled", true),
+        rules,
+    };
+}
+
+export function resolveSeverity(
+    rule: RuleId,
+    severity: vscode.DiagnosticSeverity,
+    settings: DiagnosticSettings
+): vscode.DiagnosticSeverity | null {
+    switch (settings.rules[rule]) {
+        case "error":
+            return vscode.DiagnosticSeverity.Error;
+        case "warning":
+            return vscode.DiagnosticSeverity.Warning;
+        case "info":
+            return vscode.DiagnosticSeverity.Information;
+        case "off":
+            return null;
+        default:
+            return severity;
+    }
+}
@@ -1,5 +1,14 @@
-import { Range } from "../utils/position";
+import { containsPosition, Position, Range } from "../utils/position";
 import * as AST from "../parser/ast";
+import { getNbtExpressions } from "../utils/ast";
+import {
+    findObjectiveReferences,
+    findStorageReferences,
+    findTagReferences,
+    getCommandOffset,
+    ResourceMatch,
+} from "./commands";
+import { FlowAnalyzer, FlowTypes } from "./flow";
 
 export type SymbolKind =
     | "variable"
@@ -27,10 +36,43 @@ export interface ParamInfo {
     type?: string;
 }
 
+export type ModuleResolver = (name: string) => Scope | null;
+
+export interface DeclarationConflict {
+    kind: "redeclaration" | "shadow";
+    symbol: Symbol;
+    previous: Symbol;
+}
+
+const DECLARATION_KINDS: SymbolKind[] = [
+    "variable",
+    "function",
+    "parameter",
+    "import",
+];
+const SHADOWABLE_KINDS: SymbolKind[] = [
+    "variable",
+    "function",
+    "parameter",
+    "builtin",
+];
+const MAX_INFERENCE_PASSES = 4;
+
+export type ResourceKind = "objective" | "tag" | "storage";
+
+export interface ResourceReference {
+    kind: ResourceKind;
+    name: string;
+    range: Range;
+    isDefinition: boolean;
+    path?: string;
+}
+
 export class Scope {
     parent: Scope | null = null;
     children: Scope[] = [];
     symbols: Map<string, Symbol> = new Map();
+    resources: ResourceReference[] = [];
     range: Range;
 
     constructor(range: Range, parent: Scope | null = null) {
@@ -59,6 +101,15 @@ export class Scope {
     resolveLocal(name: string): Symbol | null {
         return this.symbols.get(name) || null;
     }
+
+    findScopeAt(position: Position): Scope {
+        for (const child of this.children) {
+            if (containsPosition(child.range, position)) {
+                return child.findScopeAt(position);
+            }
+        }
+        return this;
+    }
 }
 
 
@@ -300,8 +351,13 @@ export const BUILTIN_FUNCTIONS: Symbol[] = [
 export class ScopeAnalyzer {
     private globalScope: Scope;
     private currentScope: Scope;
+    private resolveModule?: ModuleResolver;
+    private functions: Symbol[] = [];
+    private flowTypes = new FlowTypes();
+    private conflicts: DeclarationConflict[] = [];
 
-    constructor() {
+    constructor(resolveModule?: ModuleResolver) {
+        this.resolveModule = resolveModule;
         this.globalScope = new Scope({
             start: { line: 0, character: 0 },
             end: { line: 0, character: 0 },
@@ -315,14 +371,27 @@ export class ScopeAnalyzer {
     }
 
     analyze(program: AST.Program): Scope {
+        this.globalScope.range = {
+            start: { line: 0, character: 0 },
+            end: program.range.end,
+        };
         this.visitProgram(program);
+        this.inferTypes(program);
         return this.globalScope;
     }
 
+    getDeclarationConflicts(): DeclarationConflict[] {
+        return this.conflicts;
+    }
+
     getGlobalScope(): Scope {
         return this.globalScope;
     }
 
+    getFlowTypes(): FlowTypes {
+        return this.flowTypes;
+    }
+
     private visitProgram(node: AST.Program): void {
         for (const stmt of node.body) {
             this.visitStatement(stmt);
@@ -354,6 +423,10 @@ export class ScopeAnalyzer {
             case "ExecuteStatement":
                 this.visitExecuteStatement(node);
                 break;
+            case "CommandStatement":
+            case "MacroCommandStatement":
+                this.visitCommandStatement(node);
+                break;
             case "ExpressionStatement":
                 this.visitExpression(node.expression);
                 break;
@@ -366,8 +439,30 @@ export class ScopeAnalyzer {
         }
     }
 
+    private declare(scope: Scope, symbol: Symbol): void {
+        const existing = scope.resolveLocal(symbol.name);
+        if (existing && DECLARATION_KINDS.includes(existing.kind)) {
+            this.conflicts.push({
+                kind: "redeclaration",
+                symbol,
+                previous: existing,
+            });
+            return;
+        }
+
+        const outer =
+            existing?.kind === "builtin"
+                ? existing
+                : scope.parent?.resolve(symbol.name);
+        if (outer && SHADOWABLE_KINDS.includes(outer.kind)) {
+            this.conflicts.push({ kind: "shadow", symbol, previous: outer });
+        }
+
+        scope.define(symbol);
+    }
+
     private visitVarDeclaration(node: AST.VarDeclaration): void {
-        this.currentScope.define({
+        this.declare(this.currentScope, {
             name: node.name.name,
             kind: "variable",
             declarationRange: node.name.range,
@@ -384,12 +479,14 @@ export class ScopeAnalyzer {
             name: p.name.name,
         }));
 
-        this.currentScope.define({
+        const symbol: Symbol = {
             name: node.name.name,
             kind: "function",
             declarationRange: node.name.range,
             params,
-        });
+        };
+        this.declare(this.currentScope, symbol);
+        this.functions.push(symbol);
 
         
         const funcScope = new Scope(node.body.range, this.currentScope);
@@ -398,7 +495,7 @@ export class ScopeAnalyzer {
 
         
         for (const param of node.params) {
-            funcScope.define({
+            this.declare(funcScope, {
                 name: param.name.name,
                 kind: "parameter",
                 declarationRange: param.name.range,
@@ -413,6 +510,67 @@ export class ScopeAnalyzer {
         this.currentScope = previousScope;
     }
 
+    private inferTypes(program: AST.Program): void {
+        for (const symbol of this.functions) {
+            symbol.returnType = "never";
+            symbol.params?.forEach(param => (param.type = "never"));
+        }
+
+        let globalTypes = new Map<Symbol, string>();
+        for (let pass = 0; pass < MAX_INFERENCE_PASSES; pass++) {
+            const flow = new FlowAnalyzer(
+                this.globalScope,
+                this.resolveModule,
+                globalTypes
+            ).analyze(program);
+            this.flowTypes = flow.types;
+
+            let changed = Array.from(flow.globalTypes).some(
+                ([symbol, type]) => globalTypes.get(symbol) !== type
+            );
+            globalTypes = flow.globalTypes;
+            for (const symbol of this.functions) {
+                const returnType = flow.returnTypes.get(symbol) ?? "void";
+                const argumentTypes = flow.argumentTypes.get(symbol) ?? [];
+                if (symbol.returnType !== returnType) {
+                    symbol.returnType = returnType;
+                    changed = true;
+                }
+                symbol.params?.forEach((param, index) => {
+                    const type = argumentTypes[index] ?? "never";
+                    if (param.type !== type) {
+                        param.type = type;
+                        changed = true;
+                    }
+                });
+            }
+
+            if (!changed) break;
+        }
+
+        let widened = false;
+        for (const symbol of this.functions) {
+            if (symbol.returnType === "never") {
+                symbol.returnType = "any";
+                widened = true;
+            }
+            symbol.params?.forEach(param => {
+                if (param.type === "never") {
+                    param.type = undefined;
+                    widened = true;
+                }
+            });
+        }
+
+        if (widened) {
+            this.flowTypes = new FlowAnalyzer(
+                this.globalScope,
+                this.resolveModule,
+                globalTypes
+            ).analyze(program).types;
+        }
+    }
+
     private visitIfStatement(node: AST.IfStatement): void {
         this.visitExpression(node.condition);
         this.visitStatement(node.consequent);
@@ -441,6 +599,15 @@ export class ScopeAnalyzer {
     }
 
     private visitExecuteStatement(node: AST.ExecuteStatement): void {
+        this.addCommandResources(
+            node.subcommandSource.replace(
+                /"((?:[^"\\]|\\.)*)"/g,
+                (_, content) => ` ${content} `
+            ),
+            node.subcommandRange.start.line,
+            node.subcommandRange.start.character
+        );
+
         
         const execScope = new Scope(node.body.range, this.currentScope);
         const previousScope = this.currentScope;
@@ -453,6 +620,81 @@ export class ScopeAnalyzer {
         this.currentScope = previousScope;
     }
 
+    private visitCommandStatement(
+        node: AST.CommandStatement | AST.MacroCommandStatement
+    ): void {
+        this.addCommandResources(
+            node.command,
+            node.commandRange.start.line,
+            getCommandOffset(node)
+        );
+    }
+
+    private addCommandResources(
+        command: string,
+        line: number,
+        offset: number
+    ): void {
+        const toPosition = (index: number): Position => {
+            const lines = command.substring(0, index).split("\n");
+            return lines.length === 1
+                ? { line, character: offset + index }
+                : {
+                      line: line + lines.length - 1,
+                      character: lines[lines.length - 1].length,
+                  };
+        };
+        const toRange = (match: ResourceMatch): Range => ({
+            start: toPosition(match.start),
+            end: toPosition(match.start + match.length),
+        });
+        const text = command.replace(/\s/g, " ");
+
+        for (const match of findObjectiveReferences(text)) {
+            this.addResource(
+                "objective",
+                match.name,
+                toRange(match),
+                match.isDefinition
+            );
+        }
+
+        for (const match of findTagReferences(text)) {
+            this.addResource(
+                "tag",
+                match.name,
+                toRange(match),
+                match.isDefinition
+            );
+        }
+
+        for (const match of findStorageReferences(text)) {
+            this.addResource(
+                "storage",
+                match.name,
+                toRange(match),
+                match.isDefinition,
+                match.path
+            );
+        }
+    }
+
+    private addResource(
+        kind: ResourceKind,
+        name: string,
+        range: Range,
+        isDefinition: boolean,
+        path?: string
+    ): void {
+        this.globalScope.resources.push({
+            kind,
+            name,
+            range,
+            isDefinition,
+            path,
+        });
+    }
+
     private visitBlockStatement(node: AST.BlockStatement): void {
         
         const blockScope = new Scope(node.range, this.currentScope);
@@ -505,6 +747,11 @@ export class ScopeAnalyzer {
             case "ParenExpression":
                 this.visitExpression(node.expression);
                 break;
+            case "NbtCompound":
+                for (const expr of getNbtExpressions(node)) {
+                    this.visitExpression(expr);
+                }
+                break;
             default:
                 
                 break;
@@ -515,14 +762,17 @@ export class ScopeAnalyzer {
         funcName: string,
         args: AST.Expression[]
     ): void {
-        const getArgValue = (arg: AST.Expression): string | null => {
-            if (arg.type === "StringLiteral") return arg.value;
+        const getArgValue = (arg?: AST.Expression): string | null => {
+            if (arg?.type === "StringLiteral") return arg.value;
             return null;
         };
 
         if (funcName === "set_score" || funcName === "get_score") {
             const target = getArgValue(args[0]);
             const objective = getArgValue(args[1]);
+            if (objective) {
+                this.addResource("objective", objective, args[1].range, false);
+            }
             if (target && objective) {
                 
                 this.globalScope.define({
@@ -535,6 +785,16 @@ export class ScopeAnalyzer {
         } else if (funcName === "set_data" || funcName === "get_data") {
             const type = getArgValue(args[0]);
             const target = getArgValue(args[1]);
+            const path = getArgValue(args[2]);
+            if (type === "storage" && target) {
+                this.addResource(
+                    "storage",
+                    target,
+                    path !== null ? args[2].range : args[1].range,
+                    funcName === "set_data",
+                    path ?? undefined
+                );
+            }
             if (type && target) {
                 if (type === "storage") {
                     this.globalScope.define({
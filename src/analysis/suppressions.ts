@@ -0,0 +1,78 @@
+import { Token } from "../lexer/token";
+
+interface SuppressedRegion {
+    rule: string;
+    startLine: number;
+    endLine: number;
+}
+
+const ALL_RULES = "*";
+const DIRECTIVE_PATTERN =
+    /^\s*comet-(disable-next-line|disable-file|disable|enable)\b(.*)$/;
+
+export class Suppressions {
+    private regions: SuppressedRegion[] = [];
+
+    constructor(comments: Token[]) {
+        const open = new Map<string, number>();
+
+        for (const comment of comments) {
+            const match = comment.value.match(DIRECTIVE_PATTERN);
+            if (!match) continue;
+
+            const line = comment.range.start.line;
+            const rules = match[2].split(/[\s,]+/).filter(Boolean);
+            const targets = rules.length > 0 ? rules : [ALL_RULES];
+
+            switch (match[1]) {
+                case "disable-next-line":
+                    for (const rule of targets) {
+                        this.regions.push({
+                            rule,
+                            startLine: line + 1,
+                            endLine: line + 1,
+                        });
+                    }
+                    break;
+                case "disable-file":
+                    for (const rule of targets) {
+                        this.regions.push({
+                            rule,
+                            startLine: 0,
+                            endLine: Infinity,
+                        });
+                    }
+                    break;
+                case "disable":
+                    for (const rule of targets) {
+                        if (!open.has(rule)) open.set(rule, line);
+                    }
+                    break;
+                case "enable": {
+                    const closing =
+                        rules.length > 0 ? rules : Array.from(open.keys());
+                    for (const rule of closing) {
+                        const startLine = open.get(rule);
+                        if (startLine === undefined) continue;
+                        this.regions.push({ rule, startLine, endLine: line });
+                        open.delete(rule);
+                    }
+                    break;
+                }
+            }
+        }
+
+        for (const [rule, startLine] of open) {
+            this.regions.push({ rule, startLine, endLine: Infinity });
+        }
+    }
+
+    isSuppressed(rule: string, line: number): boolean {
+        return this.regions.some(
+            region =>
+                (region.rule === ALL_RULES || region.rule === rule) &&
+                line >= region.startLine &&
+                line <= region.endLine
+        );
+    }
+}
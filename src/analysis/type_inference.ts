@@ -1,7 +1,196 @@
 import * as AST from "../parser/ast";
-import { Scope } from "./scope";
+import { ModuleResolver, Scope, Symbol } from "./scope";
+
+const TYPE_ALIASES: Record<string, string[]> = {
+    number: ["int", "float", "double"],
+};
+
+const NBT_NUMBER_SUFFIXES: Record<AST.NbtNumberSuffix, string> = {
+    b: "int",
+    s: "int",
+    l: "int",
+    f: "float",
+    d: "double",
+};
+
+function splitTopLevel(text: string, separator: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let start = 0;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (char === "{" || char === "[" || char === "<") {
+            depth++;
+        } else if (char === "}" || char === "]" || char === ">") {
+            depth--;
+        } else if (depth === 0 && text.startsWith(separator, i)) {
+            parts.push(text.substring(start, i));
+            start = i + separator.length;
+            i = start - 1;
+        }
+    }
+
+    parts.push(text.substring(start));
+    return parts;
+}
+
+export function splitUnion(type: string): string[] {
+    return splitTopLevel(type, "|").map(part => part.trim());
+}
+
+function getBaseType(type: string): string {
+    if (type.startsWith("array<")) return "array";
+    if (type.startsWith("{")) return "compound";
+    return type;
+}
+
+export function getCompoundFields(type: string): Map<string, string> | null {
+    if (!type.startsWith("{") || !type.endsWith("}")) return null;
+
+    const fields = new Map<string, string>();
+    const body = type.slice(1, -1).trim();
+    if (body === "") return fields;
+
+    for (const field of splitTopLevel(body, ", ")) {
+        const separator = field.indexOf(": ");
+        fields.set(
+            field.substring(0, separator),
+            field.substring(separator + 2)
+        );
+    }
+    return fields;
+}
+
+export function formatCompound(fields: Map<string, string>): string {
+    const entries = Array.from(fields, ([key, type]) => `${key}: ${type}`);
+    return `{${entries.join(", ")}}`;
+}
+
+export function getElementType(type: string): string | undefined {
+    const elements: string[] = [];
+    for (const part of splitUnion(type)) {
+        if (part.startsWith("array<")) {
+            elements.push(part.slice("array<".length, -1));
+        } else if (part === "array" || part === "any") {
+            elements.push("any");
+        } else if (part === "string") {
+            elements.push("string");
+        }
+    }
+    return elements.length > 0 ? unifyTypes(elements) : undefined;
+}
+
+export function withElementType(type: string, element: string): string {
+    const parts = splitUnion(type).filter(
+        part => part !== "any" && part !== "never"
+    );
+    const elements = parts
+        .filter(part => part.startsWith("array<"))
+        .map(part => part.slice("array<".length, -1));
+
+    return unifyTypes([
+        ...parts.filter(part => getBaseType(part) !== "array"),
+        formatArray(unifyTypes([...elements, element])),
+    ]);
+}
+
+function formatArray(element: string): string {
+    return element === "any" || element === "never"
+        ? "array"
+        : `array<${element}>`;
+}
+
+export function getPropertyTypes(type: string): Map<string, string> | null {
+    let properties: Map<string, string> | null = null;
+
+    for (const part of splitUnion(type)) {
+        const fields = getCompoundFields(part);
+        if (!fields) continue;
+
+        properties ??= new Map();
+        for (const [key, fieldType] of fields) {
+            const existing = properties.get(key);
+            properties.set(
+                key,
+                existing ? unifyTypes([existing, fieldType]) : fieldType
+            );
+        }
+    }
+    return properties;
+}
+
+export function isAssignable(type: string, expected: string): boolean {
+    if (type === "any" || expected === "any") return true;
+
+    const allowed = expected
+        .split("|")
+        .flatMap(part => TYPE_ALIASES[part] ?? [part]);
+    return splitUnion(type).some(part =>
+        allowed.includes(getBaseType(part))
+    );
+}
+
+export function unifyTypes(types: string[]): string {
+    const parts = new Set(
+        types.flatMap(splitUnion).filter(part => part !== "never")
+    );
+    if (parts.has("any")) return "any";
+
+    const elements: string[] = [];
+    const compounds = new Map<string, Map<string, string>[]>();
+    const result: string[] = [];
+
+    for (const part of parts) {
+        const fields = getCompoundFields(part);
+        if (part.startsWith("array<")) {
+            elements.push(part.slice("array<".length, -1));
+        } else if (fields) {
+            const keys = Array.from(fields.keys()).join(",");
+            compounds.set(keys, [...(compounds.get(keys) ?? []), fields]);
+        } else if (part !== "array") {
+            result.push(part);
+        }
+    }
+
+    if (elements.length > 0 || parts.has("array")) {
+        result.push(formatArray(unifyTypes(elements)));
+    }
+
+    for (const shapes of compounds.values()) {
+        const merged = new Map<string, string>();
+        for (const key of shapes[0].keys()) {
+            merged.set(
+                key,
+                unifyTypes(shapes.map(fields => fields.get(key) ?? "never"))
+            );
+        }
+        result.push(formatCompound(merged));
+    }
+
+    if (result.length === 0) return "never";
+    return result.join("|");
+}
+
+export type VariableTypeResolver = (
+    node: AST.Identifier,
+    symbol: Symbol
+) => string | undefined;
+
+const COMPARISON_OPERATORS = ["==", "!=", "<", ">", "<=", ">=", "and", "or"];
 
 export class TypeInference {
+    private resolveVariable?: VariableTypeResolver;
+    private resolveModule?: ModuleResolver;
+
+    constructor(
+        resolveVariable?: VariableTypeResolver,
+        resolveModule?: ModuleResolver
+    ) {
+        this.resolveVariable = resolveVariable;
+        this.resolveModule = resolveModule;
+    }
+
     infer(node: AST.Expression, scope: Scope): string {
         switch (node.type) {
             case "IntLiteral":
@@ -15,17 +204,31 @@ export class TypeInference {
             case "BoolLiteral":
                 return "bool";
             case "ArrayLiteral":
-                return "array";
+                return formatArray(
+                    unifyTypes(
+                        node.elements.map(element => this.infer(element, scope))
+                    )
+                );
+
+            case "NbtCompound":
+            case "NbtTypedArray":
+                return this.inferNbt(node, scope);
 
             case "Identifier": {
                 const symbol = scope.resolve(node.name);
                 if (symbol) {
-                    return symbol.returnType || "any";
+                    return (
+                        this.resolveVariable?.(node, symbol) ||
+                        symbol.returnType ||
+                        "any"
+                    );
                 }
                 return "any";
             }
 
             case "BinaryExpression": {
+                if (COMPARISON_OPERATORS.includes(node.operator)) return "bool";
+
                 const left = this.infer(node.left, scope);
                 const right = this.infer(node.right, scope);
 
@@ -49,9 +252,47 @@ export class TypeInference {
                     if (node.callee.name === "string") return "string";
                     if (node.callee.name === "bool") return "bool";
                 }
+                if (
+                    node.callee.type === "MemberExpression" &&
+                    !node.callee.computed &&
+                    node.callee.object.type === "Identifier" &&
+                    node.callee.property.type === "Identifier"
+                ) {
+                    const symbol = scope.resolve(node.callee.object.name);
+                    const member =
+                        symbol?.kind === "import"
+                            ? this.resolveModule?.(symbol.name)?.resolveLocal(
+                                  node.callee.property.name
+                              )
+                            : null;
+                    if (member?.kind === "function" && member.returnType) {
+                        return member.returnType;
+                    }
+                }
                 return "any";
             }
 
+            case "UnaryExpression":
+                return node.operator === "!"
+                    ? "bool"
+                    : this.infer(node.argument, scope);
+
+            case "AssignmentExpression":
+                return this.infer(node.value, scope);
+
+            case "MemberExpression": {
+                const objectType = this.infer(node.object, scope);
+                if (node.computed) {
+                    return getElementType(objectType) ?? "any";
+                }
+                if (node.property.type !== "Identifier") return "any";
+
+                return (
+                    getPropertyTypes(objectType)?.get(node.property.name) ??
+                    "any"
+                );
+            }
+
             case "ParenExpression":
                 return this.infer(node.expression, scope);
 
@@ -59,4 +300,39 @@ export class TypeInference {
                 return "any";
         }
     }
+
+    private inferNbt(node: AST.NbtValue, scope: Scope): string {
+        switch (node.type) {
+            case "NbtCompound": {
+                const fields = new Map<string, string>();
+                for (const entry of node.entries) {
+                    fields.set(
+                        entry.key.name,
+                        this.inferNbt(entry.value, scope)
+                    );
+                }
+                return formatCompound(fields);
+            }
+
+            case "NbtList":
+            case "NbtTypedArray":
+                return formatArray(
+                    unifyTypes(
+                        node.elements.map(element =>
+                            this.inferNbt(element, scope)
+                        )
+                    )
+                );
+
+            case "NbtNumber":
+                if (node.suffix) return NBT_NUMBER_SUFFIXES[node.suffix];
+                return node.raw.includes(".") ? "double" : "int";
+
+            case "NbtString":
+                return "string";
+
+            default:
+                return this.infer(node, scope);
+        }
+    }
 }
@@ -0,0 +1,272 @@
+import * as fs from "fs";
+import * as vscode from "vscode";
+import * as AST from "../parser/ast";
+import { DocumentManager, ParseResult } from "../utils/document";
+import { forEachNode } from "../utils/ast";
+import { ResourceKind, ResourceReference, Scope, Symbol } from "./scope";
+
+export interface ModuleInfo {
+    name: string;
+    uri: vscode.Uri;
+    parseResult: ParseResult;
+    exports: Map<string, Symbol>;
+    imports: AST.ImportStatement[];
+}
+
+export interface ResolvedMember {
+    module: ModuleInfo;
+    symbol: Symbol;
+}
+
+export function getModuleUri(fromUri: vscode.Uri, name: string): vscode.Uri {
+    return vscode.Uri.joinPath(fromUri, "..", `${name}.planet`);
+}
+
+export function getModuleName(uri: vscode.Uri): string {
+    const fileName = uri.path.substring(uri.path.lastIndexOf("/") + 1);
+    return fileName.replace(/\.planet$/, "");
+}
+
+function getSignature(module: ModuleInfo): string {
+    return Array.from(module.exports.values())
+        .map(symbol => `${symbol.name}:${symbol.returnType ?? ""}`)
+        .join(",");
+}
+
+export class WorkspaceIndex {
+    private documentManager: DocumentManager;
+    private modules: Map<string, ModuleInfo> = new Map();
+    private resolving = new Set<string>();
+
+    constructor(documentManager: DocumentManager) {
+        this.documentManager = documentManager;
+        this.documentManager.setImportResolver((fromUri, name) =>
+            this.resolveImportScope(fromUri, name)
+        );
+    }
+
+    async initialize(): Promise<void> {
+        const files = await vscode.workspace.findFiles(
+            "**/*.planet",
+            "**/node_modules/**"
+        );
+        for (const uri of files) {
+            this.getModule(uri);
+        }
+    }
+
+    update(document: vscode.TextDocument): ModuleInfo {
+        const parseResult = this.documentManager.parse(document);
+        const key = document.uri.toString();
+
+        const cached = this.modules.get(key);
+        if (cached && cached.parseResult === parseResult) {
+            return cached;
+        }
+
+        const module = this.createModule(document.uri, parseResult);
+        this.setModule(key, module);
+        return module;
+    }
+
+    reload(uri: vscode.Uri): ModuleInfo | null {
+        const document = this.findOpenDocument(uri);
+        if (document) {
+            return this.update(document);
+        }
+
+        const key = uri.toString();
+        let text: string;
+        try {
+            text = fs.readFileSync(uri.fsPath, "utf-8");
+        } catch (e) {
+            this.modules.delete(key);
+            return null;
+        }
+
+        const module = this.createModule(
+            uri,
+            this.documentManager.parseText(text, 0, uri)
+        );
+        this.setModule(key, module);
+        return module;
+    }
+
+    remove(uri: vscode.Uri): void {
+        this.modules.delete(uri.toString());
+    }
+
+    getModule(uri: vscode.Uri): ModuleInfo | null {
+        const document = this.findOpenDocument(uri);
+        if (document) {
+            return this.update(document);
+        }
+        return this.modules.get(uri.toString()) ?? this.reload(uri);
+    }
+
+    getModules(): ModuleInfo[] {
+        return Array.from(this.modules.values());
+    }
+
+    getResources(kind: ResourceKind): ResourceReference[] {
+        return this.getModules().flatMap(module =>
+            module.parseResult.scope.resources.filter(
+                resource => resource.kind === kind
+            )
+        );
+    }
+
+    resolveImport(fromUri: vscode.Uri, name: string): ModuleInfo | null {
+        return this.getModule(getModuleUri(fromUri, name));
+    }
+
+    resolveImportScope(fromUri: vscode.Uri, name: string): Scope | null {
+        const from = fromUri.toString();
+        const key = getModuleUri(fromUri, name).toString();
+        if (this.resolving.has(key)) return null;
+
+        const pending = this.resolving.has(from) ? [key] : [from, key];
+        pending.forEach(entry => this.resolving.add(entry));
+        try {
+            return this.resolveImport(fromUri, name)?.parseResult.scope ?? null;
+        } finally {
+            pending.forEach(entry => this.resolving.delete(entry));
+        }
+    }
+
+    resolveMember(
+        fromUri: vscode.Uri,
+        scope: Scope,
+        node: AST.MemberExpression
+    ): ResolvedMember | null {
+        if (
+            node.computed ||
+            node.object.type !== "Identifier" ||
+            node.property.type !== "Identifier"
+        ) {
+            return null;
+        }
+
+        const objectSymbol = scope.resolve(node.object.name);
+        if (objectSymbol?.kind !== "import") {
+            return null;
+        }
+
+        const module = this.resolveImport(fromUri, objectSymbol.name);
+        const symbol = module?.exports.get(node.property.name);
+        if (!module || !symbol) {
+            return null;
+        }
+
+        return { module, symbol };
+    }
+
+    resolveFunction(fromUri: vscode.Uri, name: string): ResolvedMember | null {
+        const current = this.getModule(fromUri);
+        const candidates = current
+            ? [current, ...this.getModules()]
+            : this.getModules();
+
+        for (const module of candidates) {
+            const symbol = module.exports.get(name);
+            if (symbol?.kind === "function") {
+                return { module, symbol };
+            }
+        }
+        return null;
+    }
+
+    findImportCycle(fromUri: vscode.Uri, name: string): string[] | null {
+        const target = fromUri.toString();
+        const visited = new Set<string>();
+
+        const visit = (module: ModuleInfo, path: string[]): string[] | null => {
+            const key = module.uri.toString();
+            if (key === target) return path;
+            if (visited.has(key)) return null;
+            visited.add(key);
+
+            for (const statement of module.imports) {
+                const next = this.resolveImport(
+                    module.uri,
+                    statement.source.name
+                );
+                if (!next) continue;
+
+                const cycle = visit(next, [...path, next.name]);
+                if (cycle) return cycle;
+            }
+            return null;
+        };
+
+        const imported = this.resolveImport(fromUri, name);
+        if (!imported) return null;
+
+        return visit(imported, [getModuleName(fromUri), imported.name]);
+    }
+
+    private setModule(key: string, module: ModuleInfo): void {
+        const previous = this.modules.get(key);
+        this.modules.set(key, module);
+
+        if (previous && getSignature(previous) !== getSignature(module)) {
+            this.invalidateDependents(module);
+        }
+    }
+
+    private invalidateDependents(module: ModuleInfo): void {
+        const key = module.uri.toString();
+
+        for (const dependent of this.getModules()) {
+            const importsModule = dependent.imports.some(
+                statement =>
+                    getModuleUri(
+                        dependent.uri,
+                        statement.source.name
+                    ).toString() === key
+            );
+            if (!importsModule || dependent.uri.toString() === key) continue;
+
+            const document = this.findOpenDocument(dependent.uri);
+            if (document) {
+                this.documentManager.clear(document);
+            } else {
+                this.reload(dependent.uri);
+            }
+        }
+    }
+
+    private createModule(
+        uri: vscode.Uri,
+        parseResult: ParseResult
+    ): ModuleInfo {
+        const exports = new Map<string, Symbol>();
+        for (const [name, symbol] of parseResult.scope.symbols) {
+            if (symbol.kind === "function" || symbol.kind === "variable") {
+                exports.set(name, symbol);
+            }
+        }
+
+        const imports: AST.ImportStatement[] = [];
+        forEachNode(parseResult.program, node => {
+            if (node.type === "ImportStatement" && node.source.name) {
+                imports.push(node);
+            }
+        });
+
+        return {
+            name: getModuleName(uri),
+            uri,
+            parseResult,
+            exports,
+            imports,
+        };
+    }
+
+    private findOpenDocument(uri: vscode.Uri): vscode.TextDocument | undefined {
+        const key = uri.toString();
+        return vscode.workspace.textDocuments.find(
+            document => document.uri.toString() === key
+        );
+    }
+}
@@ -2,20 +2,30 @@ import * as vscode from "vscode";
 import { DocumentManager } from "./utils/document";
 import { SemanticTokensProvider, LEGEND } from "./providers/semanticTokens";
 import { DiagnosticGenerator } from "./analysis/diagnostics";
+import { WorkspaceIndex } from "./analysis/workspace";
+import { ReferenceFinder } from "./analysis/references";
 import { CompletionProvider } from "./providers/completion";
 import { HoverProvider } from "./providers/hover";
 import { DefinitionProvider } from "./providers/definition";
 import { DocumentSymbolProvider } from "./providers/documentSymbol";
+import { ReferenceProvider } from "./providers/references";
+import { RenameProvider } from "./providers/rename";
+import { CodeActionProvider } from "./providers/codeActions";
+import { SignatureHelpProvider } from "./providers/signatureHelp";
+import { InlayHintsProvider } from "./providers/inlayHints";
+import { FormattingProvider } from "./providers/formatting";
 import { getSpyglassManager } from "./minecraft/spyglass";
 import { getMcdocManager } from "./minecraft/mcdoc";
 
 let documentManager: DocumentManager;
+let workspaceIndex: WorkspaceIndex;
 let diagnosticCollection: vscode.DiagnosticCollection;
 
 export function activate(context: vscode.ExtensionContext) {
     console.log("[COMET] Comet Highlighter v3 activated");
 
     documentManager = new DocumentManager();
+    workspaceIndex = new WorkspaceIndex(documentManager);
 
     diagnosticCollection = vscode.languages.createDiagnosticCollection("comet");
     context.subscriptions.push(diagnosticCollection);
@@ -29,7 +39,10 @@ export function activate(context: vscode.ExtensionContext) {
         )
     );
 
-    const completionProvider = new CompletionProvider(documentManager);
+    const completionProvider = new CompletionProvider(
+        documentManager,
+        workspaceIndex
+    );
     context.subscriptions.push(
         vscode.languages.registerCompletionItemProvider(
             { language: "comet" },
@@ -42,7 +55,7 @@ export function activate(context: vscode.ExtensionContext) {
         )
     );
 
-    const hoverProvider = new HoverProvider(documentManager);
+    const hoverProvider = new HoverProvider(documentManager, workspaceIndex);
     context.subscriptions.push(
         vscode.languages.registerHoverProvider(
             { language: "comet" },
@@ -50,7 +63,34 @@ export function activate(context: vscode.ExtensionContext) {
         )
     );
 
-    const definitionProvider = new DefinitionProvider(documentManager);
+    const signatureHelpProvider = new SignatureHelpProvider(
+        documentManager,
+        workspaceIndex
+    );
+    context.subscriptions.push(
+        vscode.languages.registerSignatureHelpProvider(
+            { language: "comet" },
+            signatureHelpProvider,
+            "(",
+            ","
+        )
+    );
+
+    const inlayHintsProvider = new InlayHintsProvider(
+        documentManager,
+        workspaceIndex
+    );
+    context.subscriptions.push(
+        vscode.languages.registerInlayHintsProvider(
+            { language: "comet" },
+            inlayHintsProvider
+        )
+    );
+
+    const definitionProvider = new DefinitionProvider(
+        documentManager,
+        workspaceIndex
+    );
     context.subscriptions.push(
         vscode.languages.registerDefinitionProvider(
             { language: "comet" },
@@ -58,6 +98,37 @@ export function activate(context: vscode.ExtensionContext) {
         )
     );
 
+    const referenceFinder = new ReferenceFinder(workspaceIndex);
+
+    const referenceProvider = new ReferenceProvider(referenceFinder);
+    context.subscriptions.push(
+        vscode.languages.registerReferenceProvider(
+            { language: "comet" },
+            referenceProvider
+        )
+    );
+
+    const renameProvider = new RenameProvider(referenceFinder);
+    context.subscriptions.push(
+        vscode.languages.registerRenameProvider(
+            { language: "comet" },
+            renameProvider
+        )
+    );
+
+    const codeActionProvider = new CodeActionProvider(
+        documentManager,
+        workspaceIndex,
+        referenceFinder
+    );
+    context.subscriptions.push(
+        vscode.languages.registerCodeActionsProvider(
+            { language: "comet" },
+            codeActionProvider,
+            { providedCodeActionKinds: [vscode.CodeActionKind.QuickFix] }
+        )
+    );
+
     const documentSymbolProvider = new DocumentSymbolProvider(documentManager);
     context.subscriptions.push(
         vscode.languages.registerDocumentSymbolProvider(
@@ -66,6 +137,23 @@ export function activate(context: vscode.ExtensionContext) {
         )
     );
 
+    const formattingProvider = new FormattingProvider(documentManager);
+    context.subscriptions.push(
+        vscode.languages.registerDocumentFormattingEditProvider(
+            { language: "comet" },
+            formattingProvider
+        ),
+        vscode.languages.registerDocumentRangeFormattingEditProvider(
+            { language: "comet" },
+            formattingProvider
+        ),
+        vscode.languages.registerOnTypeFormattingEditProvider(
+            { language: "comet" },
+            formattingProvider,
+            "}"
+        )
+    );
+
     let timeout: ReturnType<typeof setTimeout> | undefined;
     context.subscriptions.push(
         vscode.workspace.onDidChangeTextDocument(event => {
@@ -74,7 +162,8 @@ export function activate(context: vscode.ExtensionContext) {
                     clearTimeout(timeout);
                 }
                 timeout = setTimeout(() => {
-                    updateDiagnostics(event.document);
+                    workspaceIndex.update(event.document);
+                    refreshDiagnostics();
                 }, 300);
             }
         })
@@ -83,6 +172,7 @@ export function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(
         vscode.workspace.onDidOpenTextDocument(document => {
             if (document.languageId === "comet") {
+                workspaceIndex.update(document);
                 updateDiagnostics(document);
             }
         })
@@ -93,15 +183,48 @@ export function activate(context: vscode.ExtensionContext) {
             if (document.languageId === "comet") {
                 diagnosticCollection.delete(document.uri);
                 documentManager.clear(document);
+                workspaceIndex.reload(document.uri);
             }
         })
     );
 
-    vscode.workspace.textDocuments.forEach(document => {
-        if (document.languageId === "comet") {
-            updateDiagnostics(document);
-        }
-    });
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration("comet.diagnostics")) {
+                refreshDiagnostics();
+            }
+            if (event.affectsConfiguration("comet.inlayHints")) {
+                inlayHintsProvider.refresh();
+            }
+        })
+    );
+
+    const planetWatcher =
+        vscode.workspace.createFileSystemWatcher("**/*.planet");
+    context.subscriptions.push(
+        planetWatcher,
+        planetWatcher.onDidCreate(uri => {
+            workspaceIndex.reload(uri);
+            refreshDiagnostics();
+        }),
+        planetWatcher.onDidChange(uri => {
+            workspaceIndex.reload(uri);
+            refreshDiagnostics();
+        }),
+        planetWatcher.onDidDelete(uri => {
+            workspaceIndex.remove(uri);
+            refreshDiagnostics();
+        })
+    );
+
+    workspaceIndex
+        .initialize()
+        .then(() => refreshDiagnostics())
+        .catch(err => {
+            console.warn("[COMET] Failed to index workspace:", err);
+        });
+
+    refreshDiagnostics();
 
     const config = vscode.workspace.getConfiguration("comet");
     const fallbackVersion = config.get<string>("minecraftVersion", "1.21");
@@ -131,11 +254,7 @@ export function activate(context: vscode.ExtensionContext) {
             .initialize(version)
             .then(() => {
                 semanticTokensProvider.refresh();
-                vscode.workspace.textDocuments.forEach(document => {
-                    if (document.languageId === "comet") {
-                        updateDiagnostics(document);
-                    }
-                });
+                refreshDiagnostics();
             })
             .catch(err => {
                 console.warn("[COMET] Failed to initialize Spyglass:", err);
@@ -208,15 +327,25 @@ async function resolveTvVersion(fallback: string): Promise<string> {
 
 function updateDiagnostics(document: vscode.TextDocument): void {
     const parseResult = documentManager.parse(document);
-    const diagnosticGenerator = new DiagnosticGenerator();
+    const diagnosticGenerator = new DiagnosticGenerator(workspaceIndex);
     const diagnostics = diagnosticGenerator.generate(
         parseResult.program,
-        parseResult.errors
+        parseResult.errors,
+        document.uri,
+        parseResult.comments
     );
 
     diagnosticCollection.set(document.uri, diagnostics);
 }
 
+function refreshDiagnostics(): void {
+    vscode.workspace.textDocuments.forEach(document => {
+        if (document.languageId === "comet") {
+            updateDiagnostics(document);
+        }
+    });
+}
+
 export function deactivate() {
     if (documentManager) {
         documentManager.clearAll();
@@ -3,6 +3,7 @@ import * as fs from "fs";
 import * as path from "path";
 import * as vscode from "vscode";
 import { getMcdocManager } from "./mcdoc";
+import { editDistance } from "../utils/string";
 
 interface CommandNode {
     type: "root" | "literal" | "argument";
@@ -27,8 +28,17 @@ export interface CommandValidationError {
     length: number;
     message: string;
     severity: "error" | "warning" | "info";
+    registry?: string;
 }
 
+export interface CommandCompletionContext {
+    tags?: string[];
+    objectives?: string[];
+    storages?: Map<string, string[]>;
+}
+
+const MACRO_SAMPLE = "sample";
+
 export class SpyglassManager {
     private initialized = false;
     private commandTree: CommandTree | null = null;
@@ -409,12 +419,7 @@ export class SpyglassManager {
         const registryKey = this.resolveRegistryKey(node, "");
         if (registryKey && this.registries[registryKey]) {
             const entries = this.registries[registryKey];
-            const normalizedToken = token.replace(/^#/, "");
-            const fullId = normalizedToken.includes(":")
-                ? normalizedToken
-                : `minecraft:${normalizedToken}`;
-
-            const baseId = fullId.replace(/\[.*$/, "").replace(/\{.*$/, "");
+            const baseId = this.getRegistryBaseId(token);
 
             if (
                 !entries.includes(baseId) &&
@@ -429,6 +434,7 @@ export class SpyglassManager {
                         baseId
                     ),
                     severity: "warning",
+                    registry: registryKey,
                 };
             }
         }
@@ -436,6 +442,70 @@ export class SpyglassManager {
         return null;
     }
 
+    getArgumentSample(command: string): string | null {
+        if (!this.initialized || !this.commandTree) {
+            return null;
+        }
+
+        const cleanCommand = command.startsWith("/")
+            ? command.substring(1)
+            : command;
+        if (cleanCommand !== "" && !/\s$/.test(cleanCommand)) {
+            return MACRO_SAMPLE;
+        }
+
+        const tokens = this.tokenize(cleanCommand.trim());
+        const start = tokens.lastIndexOf("run") + 1;
+        if (start === tokens.length) {
+            return null;
+        }
+
+        const { nodes, midCoord } = this.traverse(
+            this.commandTree,
+            tokens.slice(start)
+        );
+        if (midCoord > 0) {
+            return Array(midCoord).fill("~").join(" ");
+        }
+
+        for (const node of nodes) {
+            for (const child of Object.values(node.children ?? {})) {
+                if (child.type === "argument") {
+                    return this.getParserSample(child.parser ?? "");
+                }
+            }
+        }
+        return null;
+    }
+
+    private getParserSample(parser: string): string {
+        if (SpyglassManager.isCoordinateParser(parser)) {
+            return Array(SpyglassManager.getParserTokenCount(parser))
+                .fill("~")
+                .join(" ");
+        }
+
+        switch (parser) {
+            case "brigadier:integer":
+            case "brigadier:float":
+            case "brigadier:double":
+                return "0";
+            case "brigadier:bool":
+                return "true";
+            case "minecraft:gamemode":
+                return "survival";
+        }
+
+        if (
+            parser.includes("entity") ||
+            parser === "minecraft:score_holder" ||
+            parser === "minecraft:game_profile"
+        ) {
+            return "@s";
+        }
+        return MACRO_SAMPLE;
+    }
+
     private getExpectedTokens(nodes: CommandNode[]): string[] {
         const expected: string[] = [];
         for (const node of nodes) {
@@ -454,12 +524,14 @@ export class SpyglassManager {
     getCommandCompletions(
         command: string,
         cursorOffset: number,
-        availableTags: string[] = []
+        context: CommandCompletionContext = {}
     ): vscode.CompletionItem[] {
         if (!this.initialized || !this.commandTree) {
             return this.getFallbackCompletions(command);
         }
 
+        const availableTags = context.tags ?? [];
+
         const items: any[] = [];
         const seenLabels = new Set<string>();
 
@@ -517,7 +589,7 @@ export class SpyglassManager {
                             items.push({
                                 label: t,
                                 kind: vscode.CompletionItemKind.Value,
-                                detail: vscode.l10n.t("completion.tag"),
+                                detail: vscode.l10n.t("completion.tag", t),
                             });
                         }
                     });
@@ -649,6 +721,69 @@ export class SpyglassManager {
                         });
                         seenLabels.add(key);
                     }
+                } else if (
+                    child.type === "argument" &&
+                    completedArgs[completedArgs.length - 1] === "storage" &&
+                    child.parser === "minecraft:resource_location"
+                ) {
+                    for (const storage of context.storages?.keys() ?? []) {
+                        if (
+                            storage.startsWith(currentInput) &&
+                            !seenLabels.has(storage)
+                        ) {
+                            items.push({
+                                label: storage,
+                                kind: vscode.CompletionItemKind.Struct,
+                                detail: vscode.l10n.t(
+                                    "completion.storage",
+                                    storage
+                                ),
+                            });
+                            seenLabels.add(storage);
+                        }
+                    }
+                } else if (
+                    child.type === "argument" &&
+                    completedArgs[completedArgs.length - 2] === "storage" &&
+                    child.parser === "minecraft:nbt_path"
+                ) {
+                    const storage = completedArgs[completedArgs.length - 1];
+                    for (const path of context.storages?.get(storage) ?? []) {
+                        if (
+                            path.startsWith(currentInput) &&
+                            !seenLabels.has(path)
+                        ) {
+                            items.push({
+                                label: path,
+                                kind: vscode.CompletionItemKind.Field,
+                                detail: vscode.l10n.t(
+                                    "completion.storagePath",
+                                    storage
+                                ),
+                            });
+                            seenLabels.add(path);
+                        }
+                    }
+                } else if (
+                    child.type === "argument" &&
+                    child.parser === "minecraft:objective"
+                ) {
+                    (context.objectives ?? []).forEach(objective => {
+                        if (
+                            objective.startsWith(currentInput) &&
+                            !seenLabels.has(objective)
+                        ) {
+                            items.push({
+                                label: objective,
+                                kind: vscode.CompletionItemKind.Value,
+                                detail: vscode.l10n.t(
+                                    "completion.objective",
+                                    objective
+                                ),
+                            });
+                            seenLabels.add(objective);
+                        }
+                    });
                 } else if (child.type === "argument") {
                     this.addArgumentCompletions(
                         items,
@@ -699,6 +834,38 @@ export class SpyglassManager {
         return undefined;
     }
 
+    getRegistrySuggestions(token: string, registryKey: string): string[] {
+        const entries = this.registries[registryKey];
+        if (!entries) return [];
+
+        const baseId = this.getRegistryBaseId(token);
+        const prefix = token.match(/^#?/)![0];
+        const suffix = token.match(/[[{].*$/)?.[0] ?? "";
+        const namespaced = token.replace(/[[{].*$/, "").includes(":");
+        const target = baseId.includes(":") ? baseId : `minecraft:${baseId}`;
+        const maxDistance = Math.max(3, Math.floor(target.length / 3));
+
+        return entries
+            .map(id => (id.includes(":") ? id : `minecraft:${id}`))
+            .map(id => ({ id, distance: editDistance(target, id) }))
+            .filter(({ distance }) => distance <= maxDistance)
+            .sort((a, b) => a.distance - b.distance)
+            .slice(0, 3)
+            .map(({ id }) => {
+                const shown = namespaced ? id : id.replace(/^minecraft:/, "");
+                return prefix + shown + suffix;
+            });
+    }
+
+    private getRegistryBaseId(token: string): string {
+        const normalizedToken = token.replace(/^#/, "");
+        const fullId = normalizedToken.includes(":")
+            ? normalizedToken
+            : `minecraft:${normalizedToken}`;
+
+        return fullId.replace(/\[.*$/, "").replace(/\{.*$/, "");
+    }
+
     private addRegistryCompletions(
         items: any[],
         registryKey: string,
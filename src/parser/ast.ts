@@ -88,6 +88,7 @@ export interface ImportStatement {
 export interface ExecuteStatement {
     type: "ExecuteStatement";
     subcommands: string;
+    subcommandSource: string;
     subcommandRange: Range;
     body: BlockStatement;
     range: Range;
@@ -143,7 +144,8 @@ export type Expression =
     | StringLiteral
     | BoolLiteral
     | ArrayLiteral
-    | NbtLiteral
+    | NbtCompound
+    | NbtTypedArray
     | Identifier
     | BinaryExpression
     | UnaryExpression
@@ -193,12 +195,57 @@ export interface ArrayLiteral {
     range: Range;
 }
 
-export interface NbtLiteral {
-    type: "NbtLiteral";
+export type NbtValue =
+    NbtCompound | NbtList | NbtTypedArray | NbtNumber | NbtString | Expression;
+
+export interface NbtCompound {
+    type: "NbtCompound";
+    entries: NbtEntry[];
+    range: Range;
+}
+
+export interface NbtEntry {
+    key: NbtKey;
+    value: NbtValue;
+    range: Range;
+}
+
+export interface NbtKey {
+    name: string;
+    quoted: boolean;
+    range: Range;
+}
+
+export interface NbtList {
+    type: "NbtList";
+    elements: NbtValue[];
+    range: Range;
+}
+
+export interface NbtTypedArray {
+    type: "NbtTypedArray";
+    elementType: "B" | "I" | "L";
+    elements: NbtNumber[];
+    range: Range;
+}
+
+export type NbtNumberSuffix = "b" | "s" | "l" | "f" | "d";
+
+export interface NbtNumber {
+    type: "NbtNumber";
+    value: number;
+    suffix: NbtNumberSuffix | null;
     raw: string;
     range: Range;
 }
 
+export interface NbtString {
+    type: "NbtString";
+    value: string;
+    quoted: boolean;
+    range: Range;
+}
+
 export interface Identifier {
     type: "Identifier";
     name: string;
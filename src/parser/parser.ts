@@ -11,12 +11,14 @@ export class Parser {
     private tokens: Token[];
     private current = 0;
     private errors: ParseError[] = [];
+    private lines: string[] | null;
     public comments: Token[] = [];
 
-    constructor(tokens: Token[]) {
+    constructor(tokens: Token[], source?: string) {
         
         this.comments = tokens.filter(t => t.type === TokenType.Comment);
         this.tokens = tokens.filter(t => t.type !== TokenType.Comment);
+        this.lines = source !== undefined ? source.split("\n") : null;
     }
 
     parse(): AST.Program {
@@ -202,12 +204,15 @@ export class Parser {
         const condition = this.parseExpression();
         this.consume(TokenType.RParen, 'Expected ")" after condition');
 
-        const consequent = this.parseStatement()!;
+        const consequent = this.parseBody()!;
         const elseIfClauses: AST.ElseIfClause[] = [];
         let alternate: AST.Statement | null = null;
 
         
-        while (this.check(TokenType.Else) && this.checkNext(TokenType.If)) {
+        while (
+            this.checkAfterNewlines(TokenType.Else) &&
+            this.checkNext(TokenType.If)
+        ) {
             this.advance(); 
             this.advance(); 
 
@@ -218,7 +223,7 @@ export class Parser {
                 TokenType.RParen,
                 'Expected ")" after else if condition'
             );
-            const elseIfConsequent = this.parseStatement()!;
+            const elseIfConsequent = this.parseBody()!;
 
             elseIfClauses.push({
                 type: "ElseIfClause",
@@ -229,8 +234,9 @@ export class Parser {
         }
 
         
-        if (this.match(TokenType.Else)) {
-            alternate = this.parseStatement();
+        if (this.checkAfterNewlines(TokenType.Else)) {
+            this.advance();
+            alternate = this.parseBody();
         }
 
         return {
@@ -250,7 +256,7 @@ export class Parser {
         const condition = this.parseExpression();
         this.consume(TokenType.RParen, 'Expected ")" after condition');
 
-        const body = this.parseStatement()!;
+        const body = this.parseBody()!;
 
         return {
             type: "WhileStatement",
@@ -345,6 +351,9 @@ export class Parser {
         return {
             type: "ExecuteStatement",
             subcommands: subcommandsText.trim(),
+            subcommandSource: subcommandsText
+                ? this.getSourceText(subcommandRange)
+                : "",
             subcommandRange,
             body,
             range: this.makeRange(start),
@@ -368,20 +377,21 @@ export class Parser {
         
         const macroExpansions: AST.MacroExpansion[] = [];
         const regex = /\$\(([^)]+)\)/g;
+        const commandStart = token.range.end.character - token.value.length;
         let match;
 
         while ((match = regex.exec(token.value)) !== null) {
             const varName = match[1];
-            const offset = match.index;
+            const offset = commandStart + match.index;
 
             macroExpansions.push({
                 type: "MacroExpansion",
                 variable: varName,
                 range: createRange(
                     token.range.start.line,
-                    token.range.start.character + offset,
+                    offset,
                     token.range.start.line,
-                    token.range.start.character + offset + match[0].length
+                    offset + match[0].length
                 ),
             });
         }
@@ -406,7 +416,15 @@ export class Parser {
         };
     }
 
+    // A body may open its block on the line after its header.
+    private parseBody(): AST.Statement | null {
+        return this.checkAfterNewlines(TokenType.LBrace)
+            ? this.parseBlockStatement()
+            : this.parseStatement();
+    }
+
     private parseBlockStatement(): AST.BlockStatement {
+        this.checkAfterNewlines(TokenType.LBrace);
         const start = this.peek();
 
         this.consume(TokenType.LBrace, 'Expected "{"');
@@ -763,6 +781,10 @@ export class Parser {
         
         if (this.match(TokenType.LBracket)) {
             const start = this.previous();
+            if (this.isTypedArrayPrefix()) {
+                return this.parseNbtTypedArray(start);
+            }
+
             const elements: AST.Expression[] = [];
 
             if (!this.check(TokenType.RBracket)) {
@@ -782,29 +804,7 @@ export class Parser {
 
         
         if (this.match(TokenType.LBrace)) {
-            const start = this.previous();
-            let depth = 1;
-            const nbtTokens: Token[] = [start];
-
-            while (!this.isAtEnd() && depth > 0) {
-                const token = this.advance();
-                nbtTokens.push(token);
-
-                if (token.type === TokenType.LBrace) {
-                    depth++;
-                } else if (token.type === TokenType.RBrace) {
-                    depth--;
-                }
-            }
-
-            const raw = nbtTokens.map(t => t.value).join("");
-            const end = this.previous();
-
-            return {
-                type: "NbtLiteral",
-                raw,
-                range: this.combineRanges(start.range, end.range),
-            };
+            return this.parseNbtCompound(this.previous());
         }
 
         
@@ -846,6 +846,298 @@ export class Parser {
         };
     }
 
+    private parseNbtValue(): AST.NbtValue {
+        this.skipNewlines();
+        const token = this.peek();
+
+        if (this.match(TokenType.LBrace)) {
+            return this.parseNbtCompound(token);
+        }
+
+        if (this.match(TokenType.LBracket)) {
+            return this.isTypedArrayPrefix()
+                ? this.parseNbtTypedArray(token)
+                : this.parseNbtList(token);
+        }
+
+        if (this.match(TokenType.StringLiteral)) {
+            this.checkStringTerminated(token);
+            return {
+                type: "NbtString",
+                value: token.value,
+                quoted: true,
+                range: token.range,
+            };
+        }
+
+        const number = this.parseNbtNumber();
+        if (number) {
+            return number;
+        }
+
+        if (this.isNamespacedId()) {
+            let value = this.advance().value;
+            while (
+                this.isNbtWord(this.peek()) &&
+                this.isAdjacent(this.previous(), this.peek())
+            ) {
+                value += this.advance().value;
+            }
+
+            return {
+                type: "NbtString",
+                value,
+                quoted: false,
+                range: this.makeRange(token),
+            };
+        }
+
+        if (
+            this.check(TokenType.Identifier) ||
+            this.check(TokenType.DunderNamespace) ||
+            this.check(TokenType.DunderMain) ||
+            this.check(TokenType.BoolLiteral) ||
+            this.check(TokenType.LParen) ||
+            this.check(TokenType.Minus) ||
+            this.check(TokenType.Not)
+        ) {
+            return this.parseExpression();
+        }
+
+        this.error("Expected NBT value");
+        return {
+            type: "NbtString",
+            value: "",
+            quoted: false,
+            range: token.range,
+        };
+    }
+
+    private parseNbtCompound(start: Token): AST.NbtCompound {
+        const entries: AST.NbtEntry[] = [];
+
+        while (!this.checkAfterNewlines(TokenType.RBrace)) {
+            this.skipNewlines();
+            const token = this.peek();
+            if (
+                !this.check(TokenType.Identifier) &&
+                !this.check(TokenType.StringLiteral) &&
+                !this.check(TokenType.IntLiteral)
+            ) {
+                break;
+            }
+
+            this.advance();
+            if (token.type === TokenType.StringLiteral) {
+                this.checkStringTerminated(token);
+            }
+            const key: AST.NbtKey = {
+                name: token.value,
+                quoted: token.type === TokenType.StringLiteral,
+                range: token.range,
+            };
+
+            if (!this.match(TokenType.Colon)) {
+                this.error('Expected ":" after NBT key');
+                break;
+            }
+
+            const value = this.parseNbtValue();
+            entries.push({
+                key,
+                value,
+                range: this.combineRanges(key.range, value.range),
+            });
+
+            if (!this.checkAfterNewlines(TokenType.Comma)) break;
+            this.advance();
+        }
+
+        this.closeNbt(TokenType.RBrace, start, "compound");
+
+        return {
+            type: "NbtCompound",
+            entries,
+            range: this.makeRange(start),
+        };
+    }
+
+    private parseNbtList(start: Token): AST.NbtList {
+        const elements: AST.NbtValue[] = [];
+
+        while (!this.checkAfterNewlines(TokenType.RBracket)) {
+            elements.push(this.parseNbtValue());
+
+            if (!this.checkAfterNewlines(TokenType.Comma)) break;
+            this.advance();
+        }
+
+        this.closeNbt(TokenType.RBracket, start, "list");
+
+        return {
+            type: "NbtList",
+            elements,
+            range: this.makeRange(start),
+        };
+    }
+
+    private parseNbtTypedArray(start: Token): AST.NbtTypedArray {
+        const elementType = this.advance()
+            .value as AST.NbtTypedArray["elementType"];
+        this.advance();
+
+        const elements: AST.NbtNumber[] = [];
+        while (!this.checkAfterNewlines(TokenType.RBracket)) {
+            this.skipNewlines();
+            const number = this.parseNbtNumber();
+            if (!number) {
+                this.error(`Expected number in NBT ${elementType} array`);
+                break;
+            }
+            elements.push(number);
+
+            if (!this.checkAfterNewlines(TokenType.Comma)) break;
+            this.advance();
+        }
+
+        this.closeNbt(TokenType.RBracket, start, "array");
+
+        return {
+            type: "NbtTypedArray",
+            elementType,
+            elements,
+            range: this.makeRange(start),
+        };
+    }
+
+    private parseNbtNumber(): AST.NbtNumber | null {
+        const start = this.peek();
+        const next = this.tokens[this.current + 1];
+        const signed =
+            (this.check(TokenType.Minus) || this.check(TokenType.Plus)) &&
+            next !== undefined &&
+            this.isNumberToken(next) &&
+            this.isAdjacent(start, next);
+
+        if (!signed && !this.isNumberToken(start)) {
+            return null;
+        }
+
+        let raw = signed ? this.advance().value : "";
+        const number = this.advance();
+        raw += number.value;
+
+        let suffix: AST.NbtNumberSuffix | null = null;
+        if (number.type === TokenType.FloatLiteral) {
+            suffix = "f";
+        } else if (
+            this.check(TokenType.Identifier) &&
+            this.isAdjacent(number, this.peek()) &&
+            /^[bsldf]$/i.test(this.peek().value)
+        ) {
+            const token = this.advance();
+            suffix = token.value.toLowerCase() as AST.NbtNumberSuffix;
+            raw += token.value;
+        }
+
+        return {
+            type: "NbtNumber",
+            value: parseFloat(raw),
+            suffix,
+            raw,
+            range: this.makeRange(start),
+        };
+    }
+
+    private closeNbt(closing: TokenType, start: Token, kind: string): void {
+        if (this.checkAfterNewlines(closing)) {
+            this.advance();
+            return;
+        }
+
+        if (this.check(TokenType.Newline) || this.isAtEnd()) {
+            this.errors.push({
+                message: `Unterminated NBT ${kind}`,
+                range: start.range,
+            });
+            return;
+        }
+
+        this.error(`Unexpected token in NBT ${kind}: ${this.peek().value}`);
+
+        let depth = 0;
+        while (!this.isAtEnd() && !this.check(TokenType.Newline)) {
+            const token = this.advance();
+            if (
+                token.type === TokenType.LBrace ||
+                token.type === TokenType.LBracket
+            ) {
+                depth++;
+            } else if (
+                token.type === TokenType.RBrace ||
+                token.type === TokenType.RBracket
+            ) {
+                if (depth === 0) return;
+                depth--;
+            }
+        }
+    }
+
+    private checkStringTerminated(token: Token): void {
+        const line = this.lines?.[token.range.end.line];
+        if (line === undefined) return;
+
+        const { start, end } = token.range;
+        const closed =
+            (start.line !== end.line || end.character - start.character > 1) &&
+            line[end.character - 1] === '"';
+        if (!closed) {
+            this.errors.push({
+                message: "Unterminated string",
+                range: token.range,
+            });
+        }
+    }
+
+    private isTypedArrayPrefix(): boolean {
+        return (
+            this.check(TokenType.Identifier) &&
+            /^[BIL]$/.test(this.peek().value) &&
+            this.checkNext(TokenType.Semicolon)
+        );
+    }
+
+    private isNamespacedId(): boolean {
+        const next = this.tokens[this.current + 1];
+        return (
+            this.check(TokenType.Identifier) &&
+            next?.type === TokenType.Colon &&
+            this.isAdjacent(this.peek(), next)
+        );
+    }
+
+    private isNumberToken(token: Token): boolean {
+        return (
+            token.type === TokenType.IntLiteral ||
+            token.type === TokenType.FloatLiteral ||
+            token.type === TokenType.DoubleLiteral
+        );
+    }
+
+    private isNbtWord(token: Token): boolean {
+        return (
+            token.type !== TokenType.StringLiteral &&
+            /^[A-Za-z0-9_.+:-]+$/.test(token.value)
+        );
+    }
+
+    private isAdjacent(left: Token, right: Token): boolean {
+        return (
+            left.range.end.line === right.range.start.line &&
+            left.range.end.character === right.range.start.character
+        );
+    }
+
     private parseIdentifier(): AST.Identifier {
         if (
             this.check(TokenType.Identifier) ||
@@ -916,6 +1208,21 @@ export class Parser {
         return this.peek();
     }
 
+    private checkAfterNewlines(type: TokenType): boolean {
+        let index = this.current;
+        while (this.tokens[index].type === TokenType.Newline) {
+            index++;
+        }
+        if (this.tokens[index].type !== type) return false;
+
+        this.current = index;
+        return true;
+    }
+
+    private skipNewlines(): void {
+        while (this.match(TokenType.Newline));
+    }
+
     private consumeStatementTerminator(): void {
         
         this.match(TokenType.Newline, TokenType.Semicolon);
@@ -957,6 +1264,24 @@ export class Parser {
         }
     }
 
+    private getSourceText(range: Range): string {
+        if (!this.lines) {
+            return "";
+        }
+        const { start, end } = range;
+        if (start.line === end.line) {
+            return (this.lines[start.line] ?? "").substring(
+                start.character,
+                end.character
+            );
+        }
+        return [
+            (this.lines[start.line] ?? "").substring(start.character),
+            ...this.lines.slice(start.line + 1, end.line),
+            (this.lines[end.line] ?? "").substring(0, end.character),
+        ].join("\n");
+    }
+
     private makeRange(start: Token): Range {
         const end = this.previous();
         return createRange(
@@ -0,0 +1,310 @@
+import * as vscode from "vscode";
+import { DocumentManager } from "../utils/document";
+import {
+    rangeToVscodeRange,
+    vscodePositionToPosition,
+} from "../utils/position";
+import { ReferenceFinder } from "../analysis/references";
+import {
+    findCommandStatementAt,
+    validateCommandStatement,
+} from "../analysis/commands";
+import {
+    ModuleInfo,
+    WorkspaceIndex,
+    getModuleUri,
+} from "../analysis/workspace";
+import { getSpyglassManager } from "../minecraft/spyglass";
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const BRACE_RULES = ["if-no-braces", "else-if-no-braces", "else-no-braces"];
+
+export class CodeActionProvider implements vscode.CodeActionProvider {
+    private documentManager: DocumentManager;
+    private workspaceIndex: WorkspaceIndex;
+    private referenceFinder: ReferenceFinder;
+
+    constructor(
+        documentManager: DocumentManager,
+        workspaceIndex: WorkspaceIndex,
+        referenceFinder: ReferenceFinder
+    ) {
+        this.documentManager = documentManager;
+        this.workspaceIndex = workspaceIndex;
+        this.referenceFinder = referenceFinder;
+    }
+
+    provideCodeActions(
+        document: vscode.TextDocument,
+        range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext,
+        token: vscode.CancellationToken
+    ): vscode.CodeAction[] {
+        const actions: vscode.CodeAction[] = [];
+
+        for (const diagnostic of context.diagnostics) {
+            const code =
+                typeof diagnostic.code === "object"
+                    ? diagnostic.code.value
+                    : diagnostic.code;
+
+            if (diagnostic.range.isEmpty) continue;
+
+            if (BRACE_RULES.includes(String(code))) {
+                actions.push(this.wrapInBraces(document, diagnostic));
+            } else if (code === "uppercase-function") {
+                const action = this.lowercaseFunction(document, diagnostic);
+                if (action) actions.push(action);
+            } else if (code === "undefined-identifier") {
+                if (
+                    IDENTIFIER_PATTERN.test(document.getText(diagnostic.range))
+                ) {
+                    actions.push(this.declareVariable(document, diagnostic));
+                }
+                actions.push(...this.importSymbol(document, diagnostic));
+            } else if (code === "undefined-function") {
+                actions.push(...this.importSymbol(document, diagnostic));
+            } else if (code === "mc-command") {
+                actions.push(
+                    ...this.replaceRegistryEntry(document, diagnostic)
+                );
+            }
+        }
+
+        return actions;
+    }
+
+    private wrapInBraces(
+        document: vscode.TextDocument,
+        diagnostic: vscode.Diagnostic
+    ): vscode.CodeAction {
+        const { range } = diagnostic;
+        const body = document.getText(range);
+        const startLine = document.lineAt(range.start.line);
+        const sameLine =
+            range.start.character > startLine.firstNonWhitespaceCharacterIndex;
+
+        let headerLine = startLine;
+        if (!sameLine) {
+            for (let line = range.start.line - 1; line >= 0; line--) {
+                if (!document.lineAt(line).isEmptyOrWhitespace) {
+                    headerLine = document.lineAt(line);
+                    break;
+                }
+            }
+        }
+        const indent = headerLine.text.substring(
+            0,
+            headerLine.firstNonWhitespaceCharacterIndex
+        );
+
+        const edit = new vscode.WorkspaceEdit();
+        if (sameLine) {
+            edit.replace(
+                document.uri,
+                range,
+                `{\n${indent}    ${body}\n${indent}}`
+            );
+        } else {
+            edit.insert(document.uri, headerLine.range.end, " {");
+            edit.insert(document.uri, range.end, `\n${indent}}`);
+        }
+
+        return this.createAction(
+            vscode.l10n.t("codeAction.wrapInBraces"),
+            diagnostic,
+            edit,
+            true
+        );
+    }
+
+    private lowercaseFunction(
+        document: vscode.TextDocument,
+        diagnostic: vscode.Diagnostic
+    ): vscode.CodeAction | null {
+        const target = this.referenceFinder.findTarget(
+            document,
+            vscodePositionToPosition(diagnostic.range.start)
+        );
+        if (target?.symbol.kind !== "function") return null;
+
+        const newName = target.symbol.name.toLowerCase();
+        const edit = new vscode.WorkspaceEdit();
+        for (const ref of this.referenceFinder.findReferences(target)) {
+            edit.replace(ref.uri, rangeToVscodeRange(ref.range), newName);
+        }
+
+        return this.createAction(
+            vscode.l10n.t("codeAction.lowercaseFunction", newName),
+            diagnostic,
+            edit,
+            true
+        );
+    }
+
+    private declareVariable(
+        document: vscode.TextDocument,
+        diagnostic: vscode.Diagnostic
+    ): vscode.CodeAction {
+        const name = document.getText(diagnostic.range);
+        const line = document.lineAt(diagnostic.range.start.line);
+        const indent = line.text.substring(
+            0,
+            line.firstNonWhitespaceCharacterIndex
+        );
+
+        const edit = new vscode.WorkspaceEdit();
+        edit.insert(document.uri, line.range.start, `${indent}var ${name}\n`);
+
+        return this.createAction(
+            vscode.l10n.t("codeAction.declareVariable", name),
+            diagnostic,
+            edit
+        );
+    }
+
+    private importSymbol(
+        document: vscode.TextDocument,
+        diagnostic: vscode.Diagnostic
+    ): vscode.CodeAction[] {
+        const name = document.getText(diagnostic.range);
+        const current = this.workspaceIndex.update(document);
+        const imported = new Set(
+            current.imports.map(statement => statement.source.name)
+        );
+        const actions: vscode.CodeAction[] = [];
+
+        for (const module of this.getSiblingModules(document.uri)) {
+            if (module.uri.toString() === document.uri.toString()) continue;
+
+            if (module.name === name && !imported.has(name)) {
+                const edit = new vscode.WorkspaceEdit();
+                this.insertImport(document, edit, name);
+                actions.push(
+                    this.createAction(
+                        vscode.l10n.t("codeAction.addImport", name),
+                        diagnostic,
+                        edit
+                    )
+                );
+            }
+
+            if (module.exports.has(name)) {
+                const edit = new vscode.WorkspaceEdit();
+                if (!imported.has(module.name)) {
+                    this.insertImport(document, edit, module.name);
+                }
+                edit.replace(
+                    document.uri,
+                    diagnostic.range,
+                    `${module.name}.${name}`
+                );
+                actions.push(
+                    this.createAction(
+                        vscode.l10n.t(
+                            "codeAction.importMember",
+                            name,
+                            module.name
+                        ),
+                        diagnostic,
+                        edit
+                    )
+                );
+            }
+        }
+
+        return actions;
+    }
+
+    private replaceRegistryEntry(
+        document: vscode.TextDocument,
+        diagnostic: vscode.Diagnostic
+    ): vscode.CodeAction[] {
+        const { program, types } = this.documentManager.parse(document);
+        const { start } = diagnostic.range;
+        const statement = findCommandStatementAt(
+            program,
+            vscodePositionToPosition(start)
+        );
+        if (!statement) return [];
+
+        const registry = validateCommandStatement(statement, expansion =>
+            types.typeOf(expansion)
+        ).find(
+            error =>
+                error.registry &&
+                error.line === start.line &&
+                error.character === start.character
+        )?.registry;
+        if (!registry) return [];
+
+        const suggestions = getSpyglassManager().getRegistrySuggestions(
+            document.getText(diagnostic.range),
+            registry
+        );
+
+        return suggestions.map((suggestion, index) => {
+            const edit = new vscode.WorkspaceEdit();
+            edit.replace(document.uri, diagnostic.range, suggestion);
+            return this.createAction(
+                vscode.l10n.t("codeAction.replaceWith", suggestion),
+                diagnostic,
+                edit,
+                index === 0
+            );
+        });
+    }
+
+    private getSiblingModules(uri: vscode.Uri): ModuleInfo[] {
+        return this.workspaceIndex
+            .getModules()
+            .filter(
+                module =>
+                    getModuleUri(uri, module.name).toString() ===
+                    module.uri.toString()
+            );
+    }
+
+    private insertImport(
+        document: vscode.TextDocument,
+        edit: vscode.WorkspaceEdit,
+        name: string
+    ): void {
+        const { program } = this.documentManager.parse(document);
+        const imports = program.body.filter(
+            statement => statement.type === "ImportStatement"
+        );
+        const last = imports[imports.length - 1];
+        const line = last ? last.range.end.line + 1 : 0;
+
+        if (line >= document.lineCount) {
+            edit.insert(
+                document.uri,
+                document.lineAt(document.lineCount - 1).range.end,
+                `\nimport ${name}`
+            );
+            return;
+        }
+        edit.insert(
+            document.uri,
+            new vscode.Position(line, 0),
+            `import ${name}\n`
+        );
+    }
+
+    private createAction(
+        title: string,
+        diagnostic: vscode.Diagnostic,
+        edit: vscode.WorkspaceEdit,
+        isPreferred = false
+    ): vscode.CodeAction {
+        const action = new vscode.CodeAction(
+            title,
+            vscode.CodeActionKind.QuickFix
+        );
+        action.diagnostics = [diagnostic];
+        action.edit = edit;
+        action.isPreferred = isPreferred;
+        return action;
+    }
+}
@@ -1,16 +1,35 @@
 import * as vscode from "vscode";
-import { DocumentManager } from "../utils/document";
-import { BUILTIN_FUNCTIONS } from "../analysis/scope";
+import { DocumentManager, ParseResult } from "../utils/document";
+import {
+    BUILTIN_FUNCTIONS,
+    ResourceKind,
+    ResourceReference,
+    Scope,
+    Symbol,
+} from "../analysis/scope";
 import { Token, TokenType } from "../lexer/token";
 import { Lexer } from "../lexer/lexer";
 import * as AST from "../parser/ast";
-import { getSpyglassManager } from "../minecraft/spyglass";
+import {
+    CommandCompletionContext,
+    getSpyglassManager,
+} from "../minecraft/spyglass";
+import { ModuleInfo, WorkspaceIndex } from "../analysis/workspace";
+import { findCallContext } from "../utils/call";
+import { FlowTypes } from "../analysis/flow";
+import { getElementType, getPropertyTypes } from "../analysis/type_inference";
+import { containsPosition } from "../utils/position";
 
 export class CompletionProvider implements vscode.CompletionItemProvider {
     private documentManager: DocumentManager;
+    private workspaceIndex: WorkspaceIndex;
 
-    constructor(documentManager: DocumentManager) {
+    constructor(
+        documentManager: DocumentManager,
+        workspaceIndex: WorkspaceIndex
+    ) {
         this.documentManager = documentManager;
+        this.workspaceIndex = workspaceIndex;
     }
 
     provideCompletionItems(
@@ -43,12 +62,24 @@ export class CompletionProvider implements vscode.CompletionItemProvider {
         const match = lineText.match(/^(\s*)\/+(.*)$/);
         if (match) {
             const commandText = match[2];
+            if (
+                commandText.startsWith("$") &&
+                /\$\([A-Za-z0-9_]*$/.test(commandText)
+            ) {
+                return this.getMacroCompletions(
+                    this.findScopeAtPosition(parseResult.scope, position),
+                    wordRange
+                );
+            }
+            if (/\bfunction\s+__namespace__:[A-Za-z0-9_]*$/.test(commandText)) {
+                return this.getFunctionIdCompletions(document, wordRange);
+            }
+
             const spyglassManager = getSpyglassManager();
-            const availableTags = this.collectTags(parseResult.scope);
             const mcCompletions = spyglassManager.getCommandCompletions(
                 commandText,
                 commandText.length,
-                availableTags
+                this.getCommandContext(document, position)
             );
 
             return mcCompletions.map(comp => {
@@ -63,7 +94,6 @@ export class CompletionProvider implements vscode.CompletionItemProvider {
             });
         }
 
-        const lastToken = nonNewlineTokens[nonNewlineTokens.length - 1];
         const secondLastToken = nonNewlineTokens[nonNewlineTokens.length - 2];
 
         if (secondLastToken?.type === TokenType.Var) {
@@ -113,15 +143,37 @@ export class CompletionProvider implements vscode.CompletionItemProvider {
             });
         }
 
-        if (lastToken?.type === TokenType.Dot) {
-            const objectToken = nonNewlineTokens[nonNewlineTokens.length - 2];
+        const stringItems = this.getStringArgumentCompletions(
+            document,
+            nonNewlineTokens,
+            position
+        );
+        if (stringItems) {
+            return stringItems;
+        }
+
+        const dotIndex = this.findMemberDot(nonNewlineTokens, position);
+        if (dotIndex !== -1) {
+            const objectToken = nonNewlineTokens[dotIndex - 1];
             if (objectToken?.type === TokenType.Identifier) {
                 const symbol = parseResult.scope.resolve(objectToken.value);
                 if (symbol?.kind === "import") {
-                    return [];
+                    const module = this.workspaceIndex.resolveImport(
+                        document.uri,
+                        symbol.name
+                    );
+                    if (module) {
+                        return this.getModuleCompletions(module, wordRange);
+                    }
                 }
             }
-            return [];
+            return this.getPropertyCompletions(
+                nonNewlineTokens,
+                dotIndex,
+                parseResult,
+                position,
+                wordRange
+            );
         }
 
         const executeContext = this.getExecuteContext(textBeforeCursor);
@@ -130,11 +182,10 @@ export class CompletionProvider implements vscode.CompletionItemProvider {
             const command = "execute " + executeContext.content;
             const relativePos = 8 + executeContext.content.length;
 
-            const availableTags = this.collectTags(parseResult.scope);
             const mcCompletions = spyglassManager.getCommandCompletions(
                 command,
                 relativePos,
-                availableTags
+                this.getCommandContext(document, position)
             );
             return mcCompletions.map(comp => {
                 const item = new vscode.CompletionItem(
@@ -259,6 +310,7 @@ export class CompletionProvider implements vscode.CompletionItemProvider {
         const scopeItems = this.getScopeCompletions(
             currentScope,
             position,
+            parseResult.types,
             wordRange
         );
         items.push(...scopeItems);
@@ -364,6 +416,7 @@ export class CompletionProvider implements vscode.CompletionItemProvider {
     private getScopeCompletions(
         scope: any,
         position: vscode.Position,
+        types: FlowTypes,
         range?: vscode.Range
     ): vscode.CompletionItem[] {
         const items: vscode.CompletionItem[] = [];
@@ -382,16 +435,22 @@ export class CompletionProvider implements vscode.CompletionItemProvider {
                         kind = vscode.CompletionItemKind.Function;
                         detail = vscode.l10n.t(
                             "completion.function",
-                            `${name}(${this.formatParams(symbol.params || [])})`
+                            this.formatSignature(name, symbol)
                         );
                         break;
                     case "variable":
                         kind = vscode.CompletionItemKind.Variable;
-                        detail = vscode.l10n.t("completion.variable", name);
+                        detail = vscode.l10n.t(
+                            "completion.variable",
+                            this.formatTyped(name, symbol, position, types)
+                        );
                         break;
                     case "parameter":
                         kind = vscode.CompletionItemKind.Variable;
-                        detail = vscode.l10n.t("completion.parameter", name);
+                        detail = vscode.l10n.t(
+                            "completion.parameter",
+                            this.formatTyped(name, symbol, position, types)
+                        );
                         break;
                     case "import":
                         kind = vscode.CompletionItemKind.Module;
@@ -444,29 +503,384 @@ export class CompletionProvider implements vscode.CompletionItemProvider {
         return items;
     }
 
-    private collectTags(scope: any): string[] {
-        const tags: string[] = [];
-        const checkedScopes = new Set<any>();
+    private findMemberDot(tokens: Token[], position: vscode.Position): number {
+        const tokensBeforeEof = tokens.filter(t => t.type !== TokenType.EOF);
+        let index = tokensBeforeEof.length - 1;
+        const last = tokensBeforeEof[index];
+        if (
+            !last ||
+            last.range.end.line !== position.line ||
+            last.range.end.character !== position.character
+        ) {
+            return -1;
+        }
 
-        const visit = (currentScope: any) => {
-            if (!currentScope || checkedScopes.has(currentScope)) return;
-            checkedScopes.add(currentScope);
+        if (last.type === TokenType.Identifier) {
+            index--;
+        }
+        return tokensBeforeEof[index]?.type === TokenType.Dot ? index : -1;
+    }
 
-            if (currentScope.symbols) {
-                for (const [name, symbol] of currentScope.symbols) {
-                    if (symbol.kind === "tag") {
-                        tags.push(name);
-                    }
+    private getPropertyCompletions(
+        tokens: Token[],
+        dotIndex: number,
+        parseResult: ParseResult,
+        position: vscode.Position,
+        range?: vscode.Range
+    ): vscode.CompletionItem[] {
+        const accessors: (string | null)[] = [];
+        let index = dotIndex - 1;
+        let root: Token | null = null;
+
+        while (index >= 0 && !root) {
+            const token = tokens[index];
+            if (token.type === TokenType.RBracket) {
+                let depth = 0;
+                for (; index >= 0; index--) {
+                    if (tokens[index].type === TokenType.RBracket) depth++;
+                    if (tokens[index].type === TokenType.LBracket) depth--;
+                    if (depth === 0) break;
                 }
+                accessors.unshift(null);
+                index--;
+            } else if (token.type === TokenType.Identifier) {
+                if (tokens[index - 1]?.type === TokenType.Dot) {
+                    accessors.unshift(token.value);
+                    index -= 2;
+                } else {
+                    root = token;
+                }
+            } else {
+                return [];
             }
+        }
+        if (!root) return [];
+
+        const symbol = parseResult.scope
+            .findScopeAt(position)
+            .resolve(root.value);
+        let type = symbol && parseResult.types.symbolTypeAt(symbol, position);
+        for (const accessor of accessors) {
+            if (!type) return [];
+            type =
+                accessor === null
+                    ? getElementType(type)
+                    : getPropertyTypes(type)?.get(accessor);
+        }
 
-            if (currentScope.parent) {
-                visit(currentScope.parent);
+        const properties = type && getPropertyTypes(type);
+        if (!properties) return [];
+
+        return Array.from(properties, ([name, propertyType]) => {
+            const item = new vscode.CompletionItem(
+                name,
+                vscode.CompletionItemKind.Field
+            );
+            item.detail = propertyType;
+            if (range) item.range = range;
+            return item;
+        });
+    }
+
+    private getModuleCompletions(
+        module: ModuleInfo,
+        range?: vscode.Range
+    ): vscode.CompletionItem[] {
+        const items: vscode.CompletionItem[] = [];
+
+        for (const [name, symbol] of module.exports) {
+            if (symbol.kind === "function") {
+                const item = new vscode.CompletionItem(
+                    name,
+                    vscode.CompletionItemKind.Function
+                );
+                item.detail = vscode.l10n.t(
+                    "completion.function",
+                    this.formatSignature(`${module.name}.${name}`, symbol)
+                );
+
+                const paramSnippets = (symbol.params || [])
+                    .map((p, i) => `\${${i + 1}:${p.name}}`)
+                    .join(", ");
+                item.insertText = new vscode.SnippetString(
+                    `${name}(${paramSnippets})$0`
+                );
+                if (range) item.range = range;
+                items.push(item);
+            } else {
+                const item = new vscode.CompletionItem(
+                    name,
+                    vscode.CompletionItemKind.Variable
+                );
+                item.detail = vscode.l10n.t(
+                    "completion.variable",
+                    `${module.name}.${name}`
+                );
+                if (range) item.range = range;
+                items.push(item);
+            }
+        }
+
+        return items;
+    }
+
+    private getMacroCompletions(
+        scope: Scope,
+        range?: vscode.Range
+    ): vscode.CompletionItem[] {
+        const items = new Map<string, vscode.CompletionItem>();
+
+        for (
+            let current: Scope | null = scope;
+            current;
+            current = current.parent
+        ) {
+            for (const [name, symbol] of current.symbols) {
+                if (
+                    items.has(name) ||
+                    (symbol.kind !== "variable" && symbol.kind !== "parameter")
+                ) {
+                    continue;
+                }
+
+                const item = new vscode.CompletionItem(
+                    name,
+                    vscode.CompletionItemKind.Variable
+                );
+                item.detail = vscode.l10n.t(
+                    symbol.kind === "parameter"
+                        ? "completion.parameter"
+                        : "completion.variable",
+                    name
+                );
+                if (range) item.range = range;
+                items.set(name, item);
+            }
+        }
+
+        return Array.from(items.values());
+    }
+
+    private getFunctionIdCompletions(
+        document: vscode.TextDocument,
+        range?: vscode.Range
+    ): vscode.CompletionItem[] {
+        this.workspaceIndex.update(document);
+
+        const items = new Map<string, vscode.CompletionItem>();
+        for (const module of this.workspaceIndex.getModules()) {
+            for (const [name, symbol] of module.exports) {
+                if (symbol.kind !== "function" || items.has(name)) continue;
+
+                const item = new vscode.CompletionItem(
+                    name,
+                    vscode.CompletionItemKind.Function
+                );
+                item.detail = vscode.l10n.t(
+                    "completion.function",
+                    `${module.name}.${name}(${this.formatParams(symbol.params || [])})`
+                );
+                if (range) item.range = range;
+                items.set(name, item);
+            }
+        }
+
+        return Array.from(items.values());
+    }
+
+    private getStringArgumentCompletions(
+        document: vscode.TextDocument,
+        tokens: Token[],
+        position: vscode.Position
+    ): vscode.CompletionItem[] | null {
+        const tokensBeforeEof = tokens.filter(t => t.type !== TokenType.EOF);
+        const last = tokensBeforeEof[tokensBeforeEof.length - 1];
+        if (
+            last?.type !== TokenType.StringLiteral ||
+            last.range.start.line !== position.line ||
+            last.range.end.character !== position.character
+        ) {
+            return null;
+        }
+
+        const literal = document
+            .lineAt(position.line)
+            .text.substring(last.range.start.character, position.character);
+        if (!/^"(?:[^"\\]|\\.)*$/.test(literal)) {
+            return null;
+        }
+
+        const call = findCallContext(tokensBeforeEof.slice(0, -1));
+        if (!call || call.object) {
+            return [];
+        }
+
+        const range = new vscode.Range(
+            position.line,
+            last.range.start.character + 1,
+            position.line,
+            position.character
+        );
+        const createItem = (label: string, detail: string) => {
+            const item = new vscode.CompletionItem(
+                label,
+                vscode.CompletionItemKind.Value
+            );
+            item.detail = detail;
+            item.range = range;
+            return item;
+        };
+
+        const callee = call.callee.value;
+        const index = call.argumentIndex;
+        if ((callee === "get_score" || callee === "set_score") && index === 1) {
+            return this.collectResourceNames(
+                "objective",
+                document,
+                position
+            ).map(name =>
+                createItem(name, vscode.l10n.t("completion.objective", name))
+            );
+        }
+
+        if (callee === "get_data" || callee === "set_data") {
+            const args = this.getStringArguments(
+                tokensBeforeEof,
+                tokensBeforeEof.indexOf(call.openParen)
+            );
+            if (args[0] !== "storage") {
+                return [];
+            }
+
+            const storages = this.collectStorages(document, position);
+            if (index === 1) {
+                return Array.from(storages.keys()).map(name =>
+                    createItem(name, vscode.l10n.t("completion.storage", name))
+                );
+            }
+            if (index === 2 && args[1]) {
+                return (storages.get(args[1]) ?? []).map(path =>
+                    createItem(
+                        path,
+                        vscode.l10n.t("completion.storagePath", args[1]!)
+                    )
+                );
+            }
+        }
+
+        return [];
+    }
+
+    private getStringArguments(
+        tokens: Token[],
+        openIndex: number
+    ): (string | null)[] {
+        const args: (string | null)[] = [null];
+        let depth = 0;
+
+        for (let i = openIndex + 1; i < tokens.length; i++) {
+            const token = tokens[i];
+            if (
+                token.type === TokenType.LParen ||
+                token.type === TokenType.LBracket ||
+                token.type === TokenType.LBrace
+            ) {
+                depth++;
+            } else if (
+                token.type === TokenType.RParen ||
+                token.type === TokenType.RBracket ||
+                token.type === TokenType.RBrace
+            ) {
+                depth--;
+            } else if (token.type === TokenType.Comma && depth === 0) {
+                args.push(null);
+            } else if (token.type === TokenType.StringLiteral && depth === 0) {
+                args[args.length - 1] = token.value;
             }
+        }
+
+        return args;
+    }
+
+    private getCommandContext(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): CommandCompletionContext {
+        return {
+            tags: this.collectResourceNames("tag", document, position),
+            objectives: this.collectResourceNames(
+                "objective",
+                document,
+                position
+            ),
+            storages: this.collectStorages(document, position),
         };
+    }
+
+    private collectResources(
+        kind: ResourceKind,
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): ResourceReference[] {
+        this.workspaceIndex.update(document);
+        const current = document.uri.toString();
+
+        const resources: ResourceReference[] = [];
+        for (const module of this.workspaceIndex.getModules()) {
+            const isCurrent = module.uri.toString() === current;
+            for (const resource of module.parseResult.scope.resources) {
+                if (resource.kind !== kind) continue;
+                if (isCurrent && containsPosition(resource.range, position)) {
+                    continue;
+                }
+                resources.push(resource);
+            }
+        }
+        return resources;
+    }
+
+    private collectResourceNames(
+        kind: ResourceKind,
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): string[] {
+        const resources = this.collectResources(kind, document, position);
+        return Array.from(new Set(resources.map(resource => resource.name)));
+    }
+
+    private collectStorages(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): Map<string, string[]> {
+        const storages = new Map<string, Set<string>>();
+        for (const resource of this.collectResources(
+            "storage",
+            document,
+            position
+        )) {
+            const paths = storages.get(resource.name) ?? new Set<string>();
+            if (resource.path) paths.add(resource.path);
+            storages.set(resource.name, paths);
+        }
+
+        return new Map(
+            Array.from(storages, ([name, paths]) => [name, Array.from(paths)])
+        );
+    }
+
+    private formatTyped(
+        name: string,
+        symbol: Symbol,
+        position: vscode.Position,
+        types: FlowTypes
+    ): string {
+        const type = types.symbolTypeAt(symbol, position);
+        return type ? `${name}: ${type}` : name;
+    }
 
-        visit(scope);
-        return Array.from(new Set(tags));
+    private formatSignature(label: string, symbol: Symbol): string {
+        const returnType = symbol.returnType ? ` → ${symbol.returnType}` : "";
+        return `${label}(${this.formatParams(symbol.params || [])})${returnType}`;
     }
 
     private formatParams(params: any[]): string {
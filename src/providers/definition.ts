@@ -3,16 +3,21 @@ import { DocumentManager } from "../utils/document";
 import {
     vscodePositionToPosition,
     rangeToVscodeRange,
-    Position,
-    Range,
 } from "../utils/position";
-import * as AST from "../parser/ast";
+import { findIdentifierAtPosition, findMacroExpansionAt } from "../utils/ast";
+import { getModuleUri, WorkspaceIndex } from "../analysis/workspace";
+import { findFunctionCallAt } from "../analysis/commands";
 
 export class DefinitionProvider implements vscode.DefinitionProvider {
     private documentManager: DocumentManager;
+    private workspaceIndex: WorkspaceIndex;
 
-    constructor(documentManager: DocumentManager) {
+    constructor(
+        documentManager: DocumentManager,
+        workspaceIndex: WorkspaceIndex
+    ) {
         this.documentManager = documentManager;
+        this.workspaceIndex = workspaceIndex;
     }
 
     provideDefinition(
@@ -23,26 +28,63 @@ export class DefinitionProvider implements vscode.DefinitionProvider {
         const parseResult = this.documentManager.parse(document);
         const pos = vscodePositionToPosition(position);
 
-        const identifier = this.findIdentifierAtPosition(
-            parseResult.program,
-            pos
-        );
-        if (!identifier) {
-            return null;
+        const expansion = findMacroExpansionAt(parseResult.program, pos);
+        if (expansion) {
+            const symbol = parseResult.scope
+                .findScopeAt(pos)
+                .resolve(expansion.variable);
+            return symbol
+                ? new vscode.Location(
+                      document.uri,
+                      rangeToVscodeRange(symbol.declarationRange)
+                  )
+                : null;
+        }
+
+        const found = findIdentifierAtPosition(parseResult.program, pos);
+        if (!found) {
+            const call = findFunctionCallAt(parseResult.program, pos);
+            const resolved =
+                call &&
+                this.workspaceIndex.resolveFunction(document.uri, call.name);
+            if (!resolved) {
+                return null;
+            }
+
+            return new vscode.Location(
+                resolved.module.uri,
+                rangeToVscodeRange(resolved.symbol.declarationRange)
+            );
         }
 
-        const symbol = parseResult.scope.resolve(identifier.name);
+        if (found.member) {
+            const resolved = this.workspaceIndex.resolveMember(
+                document.uri,
+                parseResult.scope,
+                found.member
+            );
+            if (!resolved) {
+                return null;
+            }
+
+            return new vscode.Location(
+                resolved.module.uri,
+                rangeToVscodeRange(resolved.symbol.declarationRange)
+            );
+        }
+
+        const symbol = parseResult.scope
+            .findScopeAt(pos)
+            .resolve(found.identifier.name);
         if (!symbol) {
             return null;
         }
 
         if (symbol.kind === "import") {
-            const importedFile = vscode.Uri.joinPath(
-                document.uri,
-                "..",
-                `${symbol.name}.planet`
+            return new vscode.Location(
+                getModuleUri(document.uri, symbol.name),
+                new vscode.Position(0, 0)
             );
-            return new vscode.Location(importedFile, new vscode.Position(0, 0));
         }
 
         return new vscode.Location(
@@ -50,56 +92,4 @@ export class DefinitionProvider implements vscode.DefinitionProvider {
             rangeToVscodeRange(symbol.declarationRange)
         );
     }
-
-    private findIdentifierAtPosition(
-        program: AST.Program,
-        pos: Position
-    ): AST.Identifier | null {
-        let found: AST.Identifier | null = null;
-
-        const visitNode = (node: any): void => {
-            if (!node || typeof node !== "object") return;
-
-            if (node.type === "Identifier" && node.range) {
-                if (this.rangeContainsPosition(node.range, pos)) {
-                    found = node;
-                }
-            }
-
-            for (const key in node) {
-                if (key === "range" || key === "type") continue;
-                const value = node[key];
-
-                if (Array.isArray(value)) {
-                    for (const item of value) {
-                        visitNode(item);
-                    }
-                } else if (typeof value === "object") {
-                    visitNode(value);
-                }
-            }
-        };
-
-        visitNode(program);
-        return found;
-    }
-
-    private rangeContainsPosition(range: Range, pos: Position): boolean {
-        if (pos.line < range.start.line || pos.line > range.end.line) {
-            return false;
-        }
-        if (
-            pos.line === range.start.line &&
-            pos.character < range.start.character
-        ) {
-            return false;
-        }
-        if (
-            pos.line === range.end.line &&
-            pos.character > range.end.character
-        ) {
-            return false;
-        }
-        return true;
-    }
 }
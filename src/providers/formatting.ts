@@ -0,0 +1,687 @@
+import * as vscode from "vscode";
+import * as AST from "../parser/ast";
+import { Lexer } from "../lexer/lexer";
+import { Token, TokenType } from "../lexer/token";
+import { DocumentManager } from "../utils/document";
+import { forEachNode } from "../utils/ast";
+import {
+    containsPosition,
+    createRange,
+    Position,
+    Range,
+} from "../utils/position";
+
+interface FormatOptions {
+    indent: string;
+    formatCommands: boolean;
+}
+
+interface Item {
+    type: TokenType;
+    text: string;
+    range: Range;
+    bracket: "open" | "close" | null;
+}
+
+interface OpenBracket {
+    level: number;
+    base: number;
+    segment: number;
+}
+
+const OPENING_BRACKETS = [
+    TokenType.LParen,
+    TokenType.LBracket,
+    TokenType.LBrace,
+];
+const CLOSING_BRACKETS = [
+    TokenType.RParen,
+    TokenType.RBracket,
+    TokenType.RBrace,
+];
+
+function positionKey(position: Position): string {
+    return `${position.line}:${position.character}`;
+}
+
+function normalizeCommand(command: string): string {
+    let result = "";
+    let quote: string | null = null;
+
+    for (let i = 0; i < command.length; i++) {
+        const ch = command[i];
+        if (quote) {
+            result += ch;
+            if (ch === "\\" && i + 1 < command.length) {
+                result += command[++i];
+            } else if (ch === quote) {
+                quote = null;
+            }
+        } else if (ch === " " || ch === "\t") {
+            if (!result.endsWith(" ")) result += " ";
+        } else {
+            if (ch === '"' || ch === "'") quote = ch;
+            result += ch;
+        }
+    }
+    return result.trim();
+}
+
+class Formatter {
+    private lines: string[];
+    private program: AST.Program;
+    private options: FormatOptions;
+    private blockBraces = new Set<string>();
+    private bodyBraces = new Set<string>();
+    private unaryOperators = new Set<string>();
+    private atoms: Range[] = [];
+    private stack: OpenBracket[] = [];
+    private segment = 0;
+
+    constructor(source: string, program: AST.Program, options: FormatOptions) {
+        this.lines = source.split(/\r?\n/);
+        this.program = program;
+        this.options = options;
+    }
+
+    format(tokens: Token[]): (string | null)[] | null {
+        this.collectNodes();
+
+        const items = this.collectItems(tokens);
+        if (!items) {
+            return null;
+        }
+        const joined = this.joinLines(items);
+
+        const output: (string | null)[] = [];
+        const opensBlock: boolean[] = [];
+        const closesBlock: boolean[] = [];
+
+        items.forEach((lineItems, line) => {
+            if (joined.has(line)) {
+                output.push(null);
+                return;
+            }
+            if (lineItems.length === 0) {
+                output.push("");
+                return;
+            }
+
+            const code = lineItems.filter(
+                item => item.type !== TokenType.Comment
+            );
+            const last = code[code.length - 1];
+            opensBlock[line] =
+                last?.type === TokenType.LBrace && this.isBlockBrace(last);
+            closesBlock[line] =
+                lineItems[0].type === TokenType.RBrace &&
+                this.isBlockBrace(lineItems[0]);
+
+            output.push(
+                this.isClean(lineItems)
+                    ? this.formatLine(lineItems)
+                    : this.formatRawLine(lineItems, line)
+            );
+        });
+
+        this.normalizeBlankLines(output, opensBlock, closesBlock);
+        this.separateFunctions(output);
+        return output;
+    }
+
+    private collectNodes(): void {
+        forEachNode(this.program, node => {
+            switch (node.type) {
+                case "BlockStatement":
+                    this.blockBraces.add(positionKey(node.range.start));
+                    this.blockBraces.add(
+                        positionKey({
+                            line: node.range.end.line,
+                            character: node.range.end.character - 1,
+                        })
+                    );
+                    break;
+                case "FuncDeclaration":
+                case "WhileStatement":
+                case "ExecuteStatement":
+                    this.addBody(node.body);
+                    break;
+                case "IfStatement":
+                    this.addBody(node.consequent);
+                    for (const clause of node.elseIfClauses) {
+                        this.addBody(clause.consequent);
+                    }
+                    if (node.alternate) this.addBody(node.alternate);
+                    break;
+                case "UnaryExpression":
+                    this.unaryOperators.add(positionKey(node.range.start));
+                    break;
+                case "NbtNumber":
+                case "NbtString":
+                    this.atoms.push(node.range);
+                    break;
+            }
+        });
+    }
+
+    private addBody(body: AST.Statement): void {
+        if (body.type === "BlockStatement") {
+            this.bodyBraces.add(positionKey(body.range.start));
+        }
+    }
+
+    // Pulls a body's "{" up onto its header and an "else" onto the "}" before
+    // it, returning the lines that were emptied.
+    private joinLines(items: Item[][]): Set<number> {
+        const joined = new Set<number>();
+        let target = -1;
+
+        items.forEach((lineItems, line) => {
+            if (lineItems.length === 0) return;
+
+            const first = lineItems[0];
+            const last = items[target]?.[items[target].length - 1];
+            const joins =
+                (first.type === TokenType.LBrace &&
+                    this.bodyBraces.has(positionKey(first.range.start)) &&
+                    last !== undefined &&
+                    last.type !== TokenType.Comment) ||
+                (first.type === TokenType.Else &&
+                    last?.type === TokenType.RBrace &&
+                    this.isBlockBrace(last));
+
+            if (
+                joins &&
+                this.isClean(items[target]) &&
+                this.isClean(lineItems)
+            ) {
+                items[target].push(...lineItems);
+                items[line] = [];
+                for (let i = target + 1; i <= line; i++) {
+                    joined.add(i);
+                }
+            } else {
+                target = line;
+            }
+        });
+
+        return joined;
+    }
+
+    private collectItems(tokens: Token[]): Item[][] | null {
+        const items: Item[][] = this.lines.map(() => []);
+
+        for (let i = 0; i < tokens.length; i++) {
+            const token = tokens[i];
+            if (
+                token.type === TokenType.Newline ||
+                token.type === TokenType.EOF
+            ) {
+                continue;
+            }
+
+            const { start, end } = token.range;
+            if (start.line !== end.line) {
+                return null;
+            }
+
+            if (
+                token.type === TokenType.Execute &&
+                tokens[i + 1]?.type === TokenType.LParen
+            ) {
+                const close = this.findClosingParen(tokens, i + 1);
+                if (
+                    close === -1 ||
+                    tokens[close].range.end.line !== start.line
+                ) {
+                    return null;
+                }
+
+                const open = tokens[i + 1];
+                const subcommands = this.lines[start.line].substring(
+                    open.range.end.character,
+                    tokens[close].range.start.character
+                );
+                items[start.line].push(this.createItem(token), {
+                    type: TokenType.RParen,
+                    text: `(${this.formatCommand(subcommands)})`,
+                    range: createRange(
+                        start.line,
+                        open.range.start.character,
+                        start.line,
+                        tokens[close].range.end.character
+                    ),
+                    bracket: null,
+                });
+                i = close;
+                continue;
+            }
+
+            items[start.line].push(this.createItem(token));
+        }
+
+        return items;
+    }
+
+    private createItem(token: Token): Item {
+        const { start, end } = token.range;
+        let text = this.lines[start.line]
+            .substring(start.character, end.character)
+            .trimEnd();
+
+        if (
+            token.type === TokenType.CommandLine ||
+            token.type === TokenType.MacroCommandLine
+        ) {
+            text = this.formatCommand(text);
+        }
+
+        return {
+            type: token.type,
+            text,
+            range: token.range,
+            bracket: OPENING_BRACKETS.includes(token.type)
+                ? "open"
+                : CLOSING_BRACKETS.includes(token.type)
+                  ? "close"
+                  : null,
+        };
+    }
+
+    private findClosingParen(tokens: Token[], open: number): number {
+        let depth = 0;
+        for (let i = open; i < tokens.length; i++) {
+            if (tokens[i].type === TokenType.LParen) {
+                depth++;
+            } else if (tokens[i].type === TokenType.RParen) {
+                depth--;
+                if (depth === 0) return i;
+            }
+        }
+        return -1;
+    }
+
+    private formatCommand(text: string): string {
+        return this.options.formatCommands
+            ? normalizeCommand(text)
+            : text.trim();
+    }
+
+    private isClean(items: Item[]): boolean {
+        let line = items[0].range.start.line;
+        let offset = 0;
+
+        for (const item of items) {
+            const { start, end } = item.range;
+            if (start.line !== line) {
+                if (this.lines[line].substring(offset).trim()) return false;
+                line = start.line;
+                offset = 0;
+            }
+            if (this.lines[line].substring(offset, start.character).trim()) {
+                return false;
+            }
+            offset = end.character;
+        }
+        return !this.lines[line].substring(offset).trim();
+    }
+
+    private formatLine(items: Item[]): string {
+        const segments: Item[][] = [[]];
+
+        items.forEach((item, index) => {
+            const current = segments[segments.length - 1];
+            const previous = items[index - 1];
+            if (previous && this.breaksBetween(previous, item)) {
+                segments.push([item]);
+            } else {
+                current.push(item);
+            }
+        });
+
+        return segments.map(segment => this.formatSegment(segment)).join("\n");
+    }
+
+    private formatRawLine(items: Item[], line: number): string {
+        return this.formatSegment(items, this.lines[line].trim());
+    }
+
+    private formatSegment(items: Item[], raw?: string): string {
+        const segment = ++this.segment;
+
+        let index = 0;
+        let base = Infinity;
+        while (
+            index < items.length &&
+            items[index].bracket === "close" &&
+            this.stack.length > 0
+        ) {
+            base = Math.min(base, this.stack.pop()!.base);
+            index++;
+        }
+
+        const indentLevel = this.stack[this.stack.length - 1]?.level ?? 0;
+        base = Math.min(base, indentLevel);
+        let text = this.options.indent.repeat(indentLevel);
+
+        items.forEach((item, position) => {
+            if (raw === undefined) {
+                const previous = items[position - 1];
+                text +=
+                    (previous ? this.separator(previous, item) : "") +
+                    item.text;
+            }
+            if (position < index) return;
+
+            if (item.bracket === "open") {
+                const top = this.stack[this.stack.length - 1];
+                this.stack.push({
+                    level: top?.segment === segment ? top.level : base + 1,
+                    base,
+                    segment,
+                });
+            } else if (item.bracket === "close") {
+                const closed = this.stack.pop();
+                if (closed) base = Math.min(base, closed.base);
+            }
+        });
+
+        return raw === undefined ? text : text + raw;
+    }
+
+    private breaksBetween(previous: Item, item: Item): boolean {
+        if (item.type === TokenType.Comment) {
+            return false;
+        }
+        if (previous.type === TokenType.LBrace && this.isBlockBrace(previous)) {
+            return item.type !== TokenType.RBrace;
+        }
+        if (item.type === TokenType.RBrace && this.isBlockBrace(item)) {
+            return true;
+        }
+        if (previous.type === TokenType.RBrace && this.isBlockBrace(previous)) {
+            return item.type !== TokenType.Else;
+        }
+        return false;
+    }
+
+    private separator(previous: Item, item: Item): string {
+        if (this.isAtom(previous, item)) {
+            return this.isAdjacent(previous, item) ? "" : " ";
+        }
+
+        switch (item.type) {
+            case TokenType.Comment:
+                return " ";
+            case TokenType.Comma:
+            case TokenType.Semicolon:
+            case TokenType.Colon:
+            case TokenType.Dot:
+            case TokenType.RParen:
+            case TokenType.RBracket:
+            case TokenType.RBrace:
+                return "";
+            case TokenType.LParen:
+                return previous.type === TokenType.Identifier ||
+                    previous.type === TokenType.RParen ||
+                    previous.type === TokenType.RBracket ||
+                    previous.type === TokenType.Execute
+                    ? ""
+                    : " ";
+            case TokenType.LBracket:
+                return previous.type === TokenType.Identifier ||
+                    previous.type === TokenType.RParen ||
+                    previous.type === TokenType.RBracket
+                    ? ""
+                    : " ";
+        }
+
+        switch (previous.type) {
+            case TokenType.LParen:
+            case TokenType.LBracket:
+            case TokenType.LBrace:
+            case TokenType.Dot:
+                return "";
+            case TokenType.Minus:
+            case TokenType.Not:
+                return this.unaryOperators.has(
+                    positionKey(previous.range.start)
+                )
+                    ? ""
+                    : " ";
+        }
+        return " ";
+    }
+
+    private normalizeBlankLines(
+        output: (string | null)[],
+        opensBlock: boolean[],
+        closesBlock: boolean[]
+    ): void {
+        const last =
+            output[output.length - 1] === ""
+                ? output.length - 1
+                : output.length;
+
+        for (let start = 0; start < last; start++) {
+            if (output[start] !== "") continue;
+
+            let end = start;
+            while (end + 1 < last && output[end + 1] === "") end++;
+
+            const removeAll =
+                start === 0 ||
+                end + 1 >= last ||
+                opensBlock[start - 1] ||
+                closesBlock[end + 1];
+            for (
+                let line = removeAll ? start : start + 1;
+                line <= end;
+                line++
+            ) {
+                output[line] = null;
+            }
+            start = end;
+        }
+    }
+
+    private separateFunctions(output: (string | null)[]): void {
+        const body = this.program.body;
+
+        for (let i = 1; i < body.length; i++) {
+            const previous = body[i - 1];
+            const current = body[i];
+            if (
+                previous.type !== "FuncDeclaration" &&
+                current.type !== "FuncDeclaration"
+            ) {
+                continue;
+            }
+
+            const from = previous.range.end.line + 1;
+            const to = current.range.start.line;
+            if (from > to) continue;
+
+            let separated = false;
+            for (let line = from; line < to; line++) {
+                if (output[line] === null || output[line] === "") {
+                    separated = true;
+                }
+            }
+            if (!separated) {
+                output[from] = "\n" + output[from];
+            }
+        }
+    }
+
+    private isBlockBrace(item: Item): boolean {
+        return this.blockBraces.has(positionKey(item.range.start));
+    }
+
+    private isAtom(previous: Item, item: Item): boolean {
+        return this.atoms.some(
+            atom =>
+                containsPosition(atom, previous.range.start) &&
+                containsPosition(atom, item.range.end)
+        );
+    }
+
+    private isAdjacent(previous: Item, item: Item): boolean {
+        return (
+            previous.range.end.line === item.range.start.line &&
+            previous.range.end.character === item.range.start.character
+        );
+    }
+}
+
+export class FormattingProvider
+    implements
+        vscode.DocumentFormattingEditProvider,
+        vscode.DocumentRangeFormattingEditProvider,
+        vscode.OnTypeFormattingEditProvider
+{
+    private documentManager: DocumentManager;
+
+    constructor(documentManager: DocumentManager) {
+        this.documentManager = documentManager;
+    }
+
+    provideDocumentFormattingEdits(
+        document: vscode.TextDocument,
+        options: vscode.FormattingOptions,
+        token: vscode.CancellationToken
+    ): vscode.TextEdit[] {
+        return this.format(document, options, 0, document.lineCount - 1);
+    }
+
+    provideDocumentRangeFormattingEdits(
+        document: vscode.TextDocument,
+        range: vscode.Range,
+        options: vscode.FormattingOptions,
+        token: vscode.CancellationToken
+    ): vscode.TextEdit[] {
+        return this.format(document, options, range.start.line, range.end.line);
+    }
+
+    provideOnTypeFormattingEdits(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        ch: string,
+        options: vscode.FormattingOptions,
+        token: vscode.CancellationToken
+    ): vscode.TextEdit[] {
+        const { program } = this.documentManager.parse(document);
+
+        const blocks: AST.BlockStatement[] = [];
+        forEachNode(program, node => {
+            if (
+                node.type === "BlockStatement" &&
+                node.range.end.line === position.line &&
+                node.range.end.character === position.character
+            ) {
+                blocks.push(node);
+            }
+        });
+        if (blocks.length === 0) {
+            return [];
+        }
+
+        return this.format(
+            document,
+            options,
+            blocks[0].range.start.line,
+            position.line
+        );
+    }
+
+    private format(
+        document: vscode.TextDocument,
+        options: vscode.FormattingOptions,
+        startLine: number,
+        endLine: number
+    ): vscode.TextEdit[] {
+        const parseResult = this.documentManager.parse(document);
+        if (parseResult.errors.length > 0) {
+            return [];
+        }
+
+        const config = vscode.workspace.getConfiguration(
+            "comet.format",
+            document.uri
+        );
+        const source = document.getText();
+        const formatter = new Formatter(source, parseResult.program, {
+            indent: options.insertSpaces ? " ".repeat(options.tabSize) : "\t",
+            formatCommands: config.get<boolean>("commands", false),
+        });
+
+        const output = formatter.format(new Lexer(source).tokenize());
+        if (!output) {
+            return [];
+        }
+
+        // A line joined onto the one above it must be edited together with
+        // that line.
+        while (startLine > 0 && output[startLine] === null) {
+            startLine--;
+        }
+
+        return this.createEdits(document, output, startLine, endLine);
+    }
+
+    private createEdits(
+        document: vscode.TextDocument,
+        output: (string | null)[],
+        startLine: number,
+        endLine: number
+    ): vscode.TextEdit[] {
+        const edits: vscode.TextEdit[] = [];
+        const lastLine = document.lineCount - 1;
+        const changed = (line: number) =>
+            output[line] !== document.lineAt(line).text;
+
+        for (let start = startLine; start <= endLine; start++) {
+            if (!changed(start)) continue;
+
+            let end = start;
+            while (end + 1 <= endLine && changed(end + 1)) end++;
+
+            const lines = output
+                .slice(start, end + 1)
+                .filter((line): line is string => line !== null);
+            if (start > 0) {
+                edits.push(
+                    vscode.TextEdit.replace(
+                        new vscode.Range(
+                            document.lineAt(start - 1).range.end,
+                            document.lineAt(end).range.end
+                        ),
+                        lines.map(line => "\n" + line).join("")
+                    )
+                );
+            } else if (end < lastLine) {
+                edits.push(
+                    vscode.TextEdit.replace(
+                        new vscode.Range(0, 0, end + 1, 0),
+                        lines.map(line => line + "\n").join("")
+                    )
+                );
+            } else {
+                edits.push(
+                    vscode.TextEdit.replace(
+                        new vscode.Range(
+                            0,
+                            0,
+                            end,
+                            document.lineAt(end).text.length
+                        ),
+                        lines.join("\n")
+                    )
+                );
+            }
+            start = end;
+        }
+
+        return edits;
+    }
+}
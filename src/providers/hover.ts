@@ -1,16 +1,22 @@
 import * as vscode from "vscode";
-import { DocumentManager } from "../utils/document";
-import { vscodePositionToPosition, Position, Range } from "../utils/position";
+import { DocumentManager, ParseResult } from "../utils/document";
+import { vscodePositionToPosition, Position } from "../utils/position";
+import { findIdentifierAtPosition, findMacroExpansionAt } from "../utils/ast";
 import * as AST from "../parser/ast";
-import { TypeInference } from "../analysis/type_inference";
+import { Symbol } from "../analysis/scope";
+import { getPropertyTypes, TypeInference } from "../analysis/type_inference";
+import { ModuleInfo, WorkspaceIndex } from "../analysis/workspace";
 
 export class HoverProvider implements vscode.HoverProvider {
     private documentManager: DocumentManager;
-    private typeInference: TypeInference;
+    private workspaceIndex: WorkspaceIndex;
 
-    constructor(documentManager: DocumentManager) {
+    constructor(
+        documentManager: DocumentManager,
+        workspaceIndex: WorkspaceIndex
+    ) {
         this.documentManager = documentManager;
-        this.typeInference = new TypeInference();
+        this.workspaceIndex = workspaceIndex;
     }
 
     provideHover(
@@ -21,26 +27,111 @@ export class HoverProvider implements vscode.HoverProvider {
         const parseResult = this.documentManager.parse(document);
         const pos = vscodePositionToPosition(position);
 
-        const identifier = this.findIdentifierAtPosition(
-            parseResult.program,
-            pos
-        );
-        if (!identifier) {
+        const expansion = findMacroExpansionAt(parseResult.program, pos);
+        if (expansion) {
+            const symbol = parseResult.scope
+                .findScopeAt(pos)
+                .resolve(expansion.variable);
+            const markdown =
+                symbol && this.renderSymbol(symbol, parseResult, pos);
+            return markdown ? new vscode.Hover(markdown) : null;
+        }
+
+        const found = findIdentifierAtPosition(parseResult.program, pos);
+        if (!found) {
             return null;
         }
 
-        const symbol = parseResult.scope.resolve(identifier.name);
+        if (found.member) {
+            const resolved = this.workspaceIndex.resolveMember(
+                document.uri,
+                parseResult.scope,
+                found.member
+            );
+            if (!resolved) {
+                return this.renderProperty(found.member, parseResult, pos);
+            }
+
+            const markdown = this.renderSymbol(
+                resolved.symbol,
+                resolved.module.parseResult
+            );
+            if (!markdown) {
+                return null;
+            }
+            markdown.appendMarkdown(
+                `\n\n${vscode.l10n.t("hover.definedInModule", resolved.module.name)}`
+            );
+            return new vscode.Hover(markdown);
+        }
+
+        const symbol = parseResult.scope
+            .findScopeAt(pos)
+            .resolve(found.identifier.name);
         if (!symbol) {
             return null;
         }
 
+        const markdown = this.renderSymbol(symbol, parseResult, pos);
+        if (!markdown) {
+            return null;
+        }
+
+        if (symbol.kind === "import") {
+            const module = this.workspaceIndex.resolveImport(
+                document.uri,
+                symbol.name
+            );
+            if (module) {
+                this.appendModuleExports(markdown, module);
+            }
+        }
+
+        return new vscode.Hover(markdown);
+    }
+
+    private renderProperty(
+        node: AST.MemberExpression,
+        parseResult: ParseResult,
+        position: Position
+    ): vscode.Hover | null {
+        if (node.property.type !== "Identifier") {
+            return null;
+        }
+
+        const typeInference = new TypeInference(node =>
+            parseResult.types.typeOf(node)
+        );
+        const objectType = typeInference.infer(
+            node.object,
+            parseResult.scope.findScopeAt(position)
+        );
+        const type = getPropertyTypes(objectType)?.get(node.property.name);
+        if (!type) {
+            return null;
+        }
+
+        const markdown = new vscode.MarkdownString();
+        markdown.appendCodeblock(
+            `(property) ${node.property.name}: ${type}`,
+            "comet"
+        );
+        return new vscode.Hover(markdown);
+    }
+
+    private renderSymbol(
+        symbol: Symbol,
+        parseResult: ParseResult,
+        position?: Position
+    ): vscode.MarkdownString | null {
         const markdown = new vscode.MarkdownString();
         markdown.isTrusted = true;
 
         switch (symbol.kind) {
             case "function":
                 markdown.appendCodeblock(
-                    `def ${symbol.name}(${this.formatParams(symbol.params || [])})`,
+                    `def ${symbol.name}(${this.formatParams(symbol.params || [])})` +
+                        (symbol.returnType ? ` → ${symbol.returnType}` : ""),
                     "comet"
                 );
                 if (symbol.documentation) {
@@ -60,21 +151,8 @@ export class HoverProvider implements vscode.HoverProvider {
                 break;
 
             case "variable":
-                let typeStr = "any";
-
-                const declNode = this.findDeclarationNode(
-                    parseResult.program,
-                    symbol.declarationRange
-                );
-                if (declNode && declNode.init) {
-                    typeStr = this.typeInference.infer(
-                        declNode.init,
-                        parseResult.scope
-                    );
-                }
-
                 markdown.appendCodeblock(
-                    `var ${symbol.name}: ${typeStr}`,
+                    `var ${symbol.name}: ${this.getType(symbol, parseResult, position)}`,
                     "comet"
                 );
                 const varLine = symbol.declarationRange.start.line + 1;
@@ -84,7 +162,10 @@ export class HoverProvider implements vscode.HoverProvider {
                 break;
 
             case "parameter":
-                markdown.appendCodeblock(`parameter ${symbol.name}`, "comet");
+                markdown.appendCodeblock(
+                    `parameter ${symbol.name}: ${this.getType(symbol, parseResult, position)}`,
+                    "comet"
+                );
                 break;
 
             case "import":
@@ -98,59 +179,38 @@ export class HoverProvider implements vscode.HoverProvider {
                 return null;
         }
 
-        return new vscode.Hover(markdown);
+        return markdown;
     }
 
-    private findIdentifierAtPosition(
-        program: AST.Program,
-        pos: Position
-    ): AST.Identifier | null {
-        let found: AST.Identifier | null = null;
-
-        const visitNode = (node: any): void => {
-            if (!node || typeof node !== "object") return;
-
-            if (node.type === "Identifier" && node.range) {
-                if (this.rangeContainsPosition(node.range, pos)) {
-                    found = node;
-                }
-            }
-
-            for (const key in node) {
-                if (key === "range" || key === "type") continue;
-                const value = node[key];
-
-                if (Array.isArray(value)) {
-                    for (const item of value) {
-                        visitNode(item);
-                    }
-                } else if (typeof value === "object") {
-                    visitNode(value);
-                }
-            }
-        };
+    private appendModuleExports(
+        markdown: vscode.MarkdownString,
+        module: ModuleInfo
+    ): void {
+        if (module.exports.size === 0) {
+            return;
+        }
 
-        visitNode(program);
-        return found;
+        const names = Array.from(module.exports.values()).map(symbol =>
+            symbol.kind === "function" ? `${symbol.name}()` : symbol.name
+        );
+        markdown.appendMarkdown(
+            `\n\n${vscode.l10n.t("hover.moduleExports", names.join(", "))}`
+        );
     }
 
-    private rangeContainsPosition(range: Range, pos: Position): boolean {
-        if (pos.line < range.start.line || pos.line > range.end.line) {
-            return false;
-        }
-        if (
-            pos.line === range.start.line &&
-            pos.character < range.start.character
-        ) {
-            return false;
-        }
-        if (
-            pos.line === range.end.line &&
-            pos.character > range.end.character
-        ) {
-            return false;
-        }
-        return true;
+    private getType(
+        symbol: Symbol,
+        parseResult: ParseResult,
+        position?: Position
+    ): string {
+        return (
+            (position && parseResult.types.typeAt(position)) ||
+            parseResult.types.symbolTypeAt(
+                symbol,
+                symbol.declarationRange.start
+            ) ||
+            "any"
+        );
     }
 
     private formatParams(params: any[]): string {
@@ -158,41 +218,4 @@ export class HoverProvider implements vscode.HoverProvider {
             .map(p => (p.type ? `${p.name}: ${p.type}` : p.name))
             .join(", ");
     }
-
-    private findDeclarationNode(
-        program: AST.Program,
-        range: Range
-    ): AST.VarDeclaration | null {
-        let found: AST.VarDeclaration | null = null;
-
-        const visit = (node: any) => {
-            if (found) return;
-            if (!node || typeof node !== "object") return;
-
-            if (
-                node.type === "VarDeclaration" &&
-                node.name &&
-                node.name.range
-            ) {
-                const r = node.name.range;
-                if (
-                    r.start.line === range.start.line &&
-                    r.start.character === range.start.character
-                ) {
-                    found = node;
-                    return;
-                }
-            }
-
-            for (const key in node) {
-                if (key === "range" || key === "type") continue;
-                const val = node[key];
-                if (Array.isArray(val)) val.forEach(visit);
-                else if (typeof val === "object") visit(val);
-            }
-        };
-
-        visit(program);
-        return found;
-    }
 }
@@ -0,0 +1,153 @@
+import * as vscode from "vscode";
+import * as AST from "../parser/ast";
+import { DocumentManager, ParseResult } from "../utils/document";
+import { forEachNode } from "../utils/ast";
+import { positionToVscodePosition } from "../utils/position";
+import { Symbol } from "../analysis/scope";
+import { TypeInference } from "../analysis/type_inference";
+import { WorkspaceIndex } from "../analysis/workspace";
+
+export class InlayHintsProvider implements vscode.InlayHintsProvider {
+    private documentManager: DocumentManager;
+    private workspaceIndex: WorkspaceIndex;
+    private _onDidChangeInlayHints = new vscode.EventEmitter<void>();
+    readonly onDidChangeInlayHints: vscode.Event<void> =
+        this._onDidChangeInlayHints.event;
+
+    constructor(
+        documentManager: DocumentManager,
+        workspaceIndex: WorkspaceIndex
+    ) {
+        this.documentManager = documentManager;
+        this.workspaceIndex = workspaceIndex;
+    }
+
+    refresh(): void {
+        this._onDidChangeInlayHints.fire();
+    }
+
+    provideInlayHints(
+        document: vscode.TextDocument,
+        range: vscode.Range,
+        token: vscode.CancellationToken
+    ): vscode.InlayHint[] {
+        const config = vscode.workspace.getConfiguration(
+            "comet.inlayHints",
+            document.uri
+        );
+        const showParameterNames = config.get<boolean>("parameterNames", true);
+        const showVariableTypes = config.get<boolean>("variableTypes", true);
+        if (!showParameterNames && !showVariableTypes) {
+            return [];
+        }
+
+        const parseResult = this.documentManager.parse(document);
+        const typeInference = new TypeInference(
+            node => parseResult.types.typeOf(node),
+            name => this.workspaceIndex.resolveImportScope(document.uri, name)
+        );
+        const hints: vscode.InlayHint[] = [];
+
+        forEachNode(parseResult.program, (node, parent) => {
+            if (!range.contains(positionToVscodePosition(node.range.start))) {
+                return;
+            }
+
+            if (node.type === "CallExpression" && showParameterNames) {
+                hints.push(
+                    ...this.createParameterHints(document, parseResult, node)
+                );
+            } else if (
+                node.type === "VarDeclaration" &&
+                parent?.type !== "FuncDeclaration" &&
+                showVariableTypes
+            ) {
+                const hint = this.createTypeHint(
+                    parseResult,
+                    typeInference,
+                    node
+                );
+                if (hint) hints.push(hint);
+            }
+        });
+
+        return hints;
+    }
+
+    private createParameterHints(
+        document: vscode.TextDocument,
+        parseResult: ParseResult,
+        node: AST.CallExpression
+    ): vscode.InlayHint[] {
+        const params = this.resolveCallee(document, parseResult, node)?.params;
+        if (!params) {
+            return [];
+        }
+
+        const hints: vscode.InlayHint[] = [];
+        node.arguments.forEach((arg, index) => {
+            const param = params[index];
+            if (!param) return;
+
+            const name = param.name.replace(/^\.\.\./, "");
+            if (arg.type === "Identifier" && arg.name === name) return;
+
+            const hint = new vscode.InlayHint(
+                positionToVscodePosition(arg.range.start),
+                `${name}:`,
+                vscode.InlayHintKind.Parameter
+            );
+            hint.paddingRight = true;
+            hints.push(hint);
+        });
+        return hints;
+    }
+
+    private resolveCallee(
+        document: vscode.TextDocument,
+        parseResult: ParseResult,
+        node: AST.CallExpression
+    ): Symbol | null {
+        const scope = parseResult.scope.findScopeAt(node.range.start);
+
+        if (node.callee.type === "MemberExpression") {
+            const resolved = this.workspaceIndex.resolveMember(
+                document.uri,
+                scope,
+                node.callee
+            );
+            return resolved?.symbol.kind === "function"
+                ? resolved.symbol
+                : null;
+        }
+
+        const symbol = scope.resolve(node.callee.name);
+        return symbol?.kind === "function" || symbol?.kind === "builtin"
+            ? symbol
+            : null;
+    }
+
+    private createTypeHint(
+        parseResult: ParseResult,
+        typeInference: TypeInference,
+        node: AST.VarDeclaration
+    ): vscode.InlayHint | null {
+        if (!node.init) {
+            return null;
+        }
+
+        const type = typeInference.infer(
+            node.init,
+            parseResult.scope.findScopeAt(node.init.range.start)
+        );
+        if (type === "any") {
+            return null;
+        }
+
+        return new vscode.InlayHint(
+            positionToVscodePosition(node.name.range.end),
+            `: ${type}`,
+            vscode.InlayHintKind.Type
+        );
+    }
+}
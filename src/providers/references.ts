@@ -0,0 +1,37 @@
+import * as vscode from "vscode";
+import {
+    rangeToVscodeRange,
+    vscodePositionToPosition,
+} from "../utils/position";
+import { ReferenceFinder } from "../analysis/references";
+
+export class ReferenceProvider implements vscode.ReferenceProvider {
+    private referenceFinder: ReferenceFinder;
+
+    constructor(referenceFinder: ReferenceFinder) {
+        this.referenceFinder = referenceFinder;
+    }
+
+    provideReferences(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        context: vscode.ReferenceContext,
+        token: vscode.CancellationToken
+    ): vscode.ProviderResult<vscode.Location[]> {
+        const target = this.referenceFinder.findTarget(
+            document,
+            vscodePositionToPosition(position)
+        );
+        if (!target) {
+            return null;
+        }
+
+        return this.referenceFinder
+            .findReferences(target)
+            .filter(ref => context.includeDeclaration || !ref.isDeclaration)
+            .map(
+                ref =>
+                    new vscode.Location(ref.uri, rangeToVscodeRange(ref.range))
+            );
+    }
+}
@@ -0,0 +1,72 @@
+import * as vscode from "vscode";
+import {
+    rangeToVscodeRange,
+    vscodePositionToPosition,
+} from "../utils/position";
+import { ReferenceFinder, SymbolTarget } from "../analysis/references";
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export class RenameProvider implements vscode.RenameProvider {
+    private referenceFinder: ReferenceFinder;
+
+    constructor(referenceFinder: ReferenceFinder) {
+        this.referenceFinder = referenceFinder;
+    }
+
+    prepareRename(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken
+    ): vscode.ProviderResult<
+        vscode.Range | { range: vscode.Range; placeholder: string }
+    > {
+        const target = this.findRenameTarget(document, position);
+
+        return {
+            range: rangeToVscodeRange(target.range),
+            placeholder: target.symbol.name,
+        };
+    }
+
+    provideRenameEdits(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        newName: string,
+        token: vscode.CancellationToken
+    ): vscode.ProviderResult<vscode.WorkspaceEdit> {
+        if (!IDENTIFIER_PATTERN.test(newName)) {
+            throw new Error(vscode.l10n.t("rename.invalidName", newName));
+        }
+
+        const target = this.findRenameTarget(document, position);
+        const edit = new vscode.WorkspaceEdit();
+
+        for (const ref of this.referenceFinder.findReferences(target)) {
+            edit.replace(ref.uri, rangeToVscodeRange(ref.range), newName);
+        }
+
+        return edit;
+    }
+
+    private findRenameTarget(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): SymbolTarget {
+        const target = this.referenceFinder.findTarget(
+            document,
+            vscodePositionToPosition(position)
+        );
+
+        if (
+            !target ||
+            (target.symbol.kind !== "variable" &&
+                target.symbol.kind !== "function" &&
+                target.symbol.kind !== "parameter")
+        ) {
+            throw new Error(vscode.l10n.t("rename.notRenamable"));
+        }
+
+        return target;
+    }
+}
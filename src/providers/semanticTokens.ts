@@ -425,65 +425,58 @@ export class SemanticTokensProvider
             case "ParenExpression":
                 this.visitExpression(node.expression, scope, builder);
                 break;
-            case "NbtLiteral":
-                
-                const range = new vscode.Range(
-                    node.range.start.line,
-                    node.range.start.character,
-                    node.range.end.line,
-                    node.range.end.character
-                );
-                
-                
-                if (!this.activeDocument) break;
-                const text = this.activeDocument.getText(range);
-
-                
-                const spyglass = getSpyglassManager();
-                const nbtTokens = spyglass.getNbtTokens(text);
-
-                for (const token of nbtTokens) {
-                    const line = node.range.start.line; 
-
-                    const startOffset = this.activeDocument.offsetAt(
-                        new vscode.Position(
-                            node.range.start.line,
-                            node.range.start.character
-                        )
-                    );
-                    const tokenStartAbs = startOffset + token.start;
-                    const tokenStartPos =
-                        this.activeDocument.positionAt(tokenStartAbs);
+            case "NbtCompound":
+            case "NbtTypedArray":
+                this.visitNbtValue(node, scope, builder);
+                break;
+            default:
+                break;
+        }
+    }
 
-                    const tokenEndPos = this.activeDocument.positionAt(
-                        tokenStartAbs + token.length
-                    );
-                    const tokenRange = new vscode.Range(
-                        tokenStartPos,
-                        tokenEndPos
+    private visitNbtValue(
+        node: AST.NbtValue,
+        scope: Scope,
+        builder: vscode.SemanticTokensBuilder
+    ): void {
+        switch (node.type) {
+            case "NbtCompound":
+                for (const entry of node.entries) {
+                    this.addToken(
+                        builder,
+                        entry.key.range,
+                        TOKEN_TYPES.indexOf(
+                            entry.key.quoted ? "string" : "property"
+                        ),
+                        []
                     );
-
-                    const typeIdx = TOKEN_TYPES.indexOf(token.tokenType);
-                    if (typeIdx !== -1) {
-                        this.addToken(
-                            builder,
-                            {
-                                start: {
-                                    line: tokenRange.start.line,
-                                    character: tokenRange.start.character,
-                                },
-                                end: {
-                                    line: tokenRange.end.line,
-                                    character: tokenRange.end.character,
-                                },
-                            },
-                            typeIdx,
-                            []
-                        );
-                    }
+                    this.visitNbtValue(entry.value, scope, builder);
+                }
+                break;
+            case "NbtList":
+            case "NbtTypedArray":
+                for (const element of node.elements) {
+                    this.visitNbtValue(element, scope, builder);
                 }
                 break;
+            case "NbtNumber":
+                this.addToken(
+                    builder,
+                    node.range,
+                    TOKEN_TYPES.indexOf("number"),
+                    []
+                );
+                break;
+            case "NbtString":
+                this.addToken(
+                    builder,
+                    node.range,
+                    TOKEN_TYPES.indexOf("string"),
+                    []
+                );
+                break;
             default:
+                this.visitExpression(node, scope, builder);
                 break;
         }
     }
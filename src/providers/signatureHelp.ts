@@ -0,0 +1,162 @@
+import * as vscode from "vscode";
+import { DocumentManager } from "../utils/document";
+import { vscodePositionToPosition } from "../utils/position";
+import { findCallContext } from "../utils/call";
+import { Lexer } from "../lexer/lexer";
+import { TokenType } from "../lexer/token";
+import { BUILTIN_FUNCTIONS, ParamInfo, Symbol } from "../analysis/scope";
+import { WorkspaceIndex } from "../analysis/workspace";
+
+export class SignatureHelpProvider implements vscode.SignatureHelpProvider {
+    private documentManager: DocumentManager;
+    private workspaceIndex: WorkspaceIndex;
+
+    constructor(
+        documentManager: DocumentManager,
+        workspaceIndex: WorkspaceIndex
+    ) {
+        this.documentManager = documentManager;
+        this.workspaceIndex = workspaceIndex;
+    }
+
+    provideSignatureHelp(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken,
+        context: vscode.SignatureHelpContext
+    ): vscode.ProviderResult<vscode.SignatureHelp> {
+        const textBeforeCursor = document.getText(
+            new vscode.Range(0, 0, position.line, position.character)
+        );
+        const tokens = new Lexer(textBeforeCursor)
+            .tokenize()
+            .filter(
+                t =>
+                    t.type !== TokenType.Comment &&
+                    t.type !== TokenType.Newline &&
+                    t.type !== TokenType.EOF
+            );
+
+        const call = findCallContext(tokens);
+        if (!call) {
+            return null;
+        }
+
+        const candidates = this.resolveCallee(
+            document,
+            position,
+            call.callee.value,
+            call.object?.value ?? null
+        );
+        if (candidates.length === 0) {
+            return null;
+        }
+
+        const label = call.object
+            ? `${call.object.value}.${call.callee.value}`
+            : call.callee.value;
+        const help = new vscode.SignatureHelp();
+        help.signatures = candidates.map(symbol =>
+            this.createSignature(label, symbol, call.argumentIndex)
+        );
+
+        const previous = context.activeSignatureHelp;
+        const fitting = candidates.findIndex(symbol =>
+            this.acceptsArgument(symbol.params ?? [], call.argumentIndex)
+        );
+        help.activeSignature =
+            previous &&
+            previous.activeSignature < candidates.length &&
+            this.acceptsArgument(
+                candidates[previous.activeSignature].params ?? [],
+                call.argumentIndex
+            )
+                ? previous.activeSignature
+                : Math.max(fitting, 0);
+        help.activeParameter =
+            help.signatures[help.activeSignature].activeParameter ?? 0;
+        return help;
+    }
+
+    private resolveCallee(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        name: string,
+        object: string | null
+    ): Symbol[] {
+        const parseResult = this.documentManager.parse(document);
+        const scope = parseResult.scope.findScopeAt(
+            vscodePositionToPosition(position)
+        );
+
+        if (object) {
+            const objectSymbol = scope.resolve(object);
+            if (objectSymbol?.kind !== "import") {
+                return [];
+            }
+            const symbol = this.workspaceIndex
+                .resolveImport(document.uri, objectSymbol.name)
+                ?.exports.get(name);
+            return symbol?.kind === "function" ? [symbol] : [];
+        }
+
+        const symbol = scope.resolve(name);
+        if (symbol?.kind === "builtin") {
+            return BUILTIN_FUNCTIONS.filter(builtin => builtin.name === name);
+        }
+        return symbol?.kind === "function" ? [symbol] : [];
+    }
+
+    private createSignature(
+        label: string,
+        symbol: Symbol,
+        argumentIndex: number
+    ): vscode.SignatureInformation {
+        const params = symbol.params ?? [];
+        const parameters: vscode.ParameterInformation[] = [];
+
+        let text = `${label}(`;
+        params.forEach((param, index) => {
+            if (index > 0) text += ", ";
+            const start = text.length;
+            text += param.type ? `${param.name}: ${param.type}` : param.name;
+            parameters.push(
+                new vscode.ParameterInformation([start, text.length])
+            );
+        });
+        text += ")";
+        if (symbol.returnType) {
+            text += ` → ${symbol.returnType}`;
+        }
+
+        const signature = new vscode.SignatureInformation(
+            text,
+            symbol.documentation
+                ? new vscode.MarkdownString(symbol.documentation)
+                : undefined
+        );
+        signature.parameters = parameters;
+
+        const variadic =
+            params.length > 0 && this.isVariadic(params[params.length - 1]);
+        signature.activeParameter =
+            variadic && argumentIndex >= params.length
+                ? params.length - 1
+                : argumentIndex;
+        return signature;
+    }
+
+    private acceptsArgument(
+        params: ParamInfo[],
+        argumentIndex: number
+    ): boolean {
+        return (
+            argumentIndex < params.length ||
+            (params.length > 0 && this.isVariadic(params[params.length - 1]))
+        );
+    }
+
+    private isVariadic(param: ParamInfo): boolean {
+        return param.name.startsWith("...");
+    }
+}
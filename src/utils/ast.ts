@@ -0,0 +1,106 @@
+import * as AST from "../parser/ast";
+import { containsPosition, createRange, Position, Range } from "./position";
+
+export interface IdentifierAtPosition {
+    identifier: AST.Identifier;
+    member: AST.MemberExpression | null;
+}
+
+export function findIdentifierAtPosition(
+    program: AST.Program,
+    pos: Position
+): IdentifierAtPosition | null {
+    let found: IdentifierAtPosition | null = null;
+
+    forEachNode(program, (node, parent) => {
+        if (node.type === "Identifier" && containsPosition(node.range, pos)) {
+            found = {
+                identifier: node,
+                member: isMemberProperty(node, parent) ? parent : null,
+            };
+        }
+    });
+
+    return found;
+}
+
+export function findMacroExpansionAt(
+    program: AST.Program,
+    pos: Position
+): AST.MacroExpansion | null {
+    let found: AST.MacroExpansion | null = null;
+
+    forEachNode(program, node => {
+        if (
+            !found &&
+            node.type === "MacroExpansion" &&
+            containsPosition(node.range, pos)
+        ) {
+            found = node;
+        }
+    });
+
+    return found;
+}
+
+export function getMacroNameRange(node: AST.MacroExpansion): Range {
+    return createRange(
+        node.range.start.line,
+        node.range.start.character + 2,
+        node.range.end.line,
+        node.range.end.character - 1
+    );
+}
+
+export function forEachNode(
+    root: any,
+    callback: (node: any, parent: any) => void
+): void {
+    const visitNode = (node: any, parent: any): void => {
+        if (!node || typeof node !== "object") return;
+
+        if (typeof node.type === "string") {
+            callback(node, parent);
+        }
+
+        for (const key in node) {
+            if (key === "range" || key === "type") continue;
+            const value = node[key];
+
+            if (Array.isArray(value)) {
+                for (const item of value) {
+                    visitNode(item, node);
+                }
+            } else if (typeof value === "object") {
+                visitNode(value, node);
+            }
+        }
+    };
+
+    visitNode(root, null);
+}
+
+export function getNbtExpressions(node: AST.NbtValue): AST.Expression[] {
+    switch (node.type) {
+        case "NbtCompound":
+            return node.entries.flatMap(entry =>
+                getNbtExpressions(entry.value)
+            );
+        case "NbtList":
+            return node.elements.flatMap(getNbtExpressions);
+        case "NbtTypedArray":
+        case "NbtNumber":
+        case "NbtString":
+            return [];
+        default:
+            return [node];
+    }
+}
+
+export function isMemberProperty(node: AST.Identifier, parent: any): boolean {
+    return (
+        parent?.type === "MemberExpression" &&
+        !parent.computed &&
+        parent.property === node
+    );
+}
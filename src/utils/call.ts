@@ -0,0 +1,55 @@
+import { Token, TokenType } from "../lexer/token";
+
+export interface CallContext {
+    callee: Token;
+    object: Token | null;
+    openParen: Token;
+    argumentIndex: number;
+}
+
+export function findCallContext(tokens: Token[]): CallContext | null {
+    let depth = 0;
+    let argumentIndex = 0;
+
+    for (let i = tokens.length - 1; i >= 0; i--) {
+        const token = tokens[i];
+
+        switch (token.type) {
+            case TokenType.RParen:
+            case TokenType.RBracket:
+            case TokenType.RBrace:
+                depth++;
+                break;
+            case TokenType.LBracket:
+            case TokenType.LBrace:
+                if (depth === 0) return null;
+                depth--;
+                break;
+            case TokenType.Comma:
+                if (depth === 0) argumentIndex++;
+                break;
+            case TokenType.Semicolon:
+                if (depth === 0) return null;
+                break;
+            case TokenType.LParen: {
+                if (depth > 0) {
+                    depth--;
+                    break;
+                }
+
+                const callee = tokens[i - 1];
+                if (callee?.type !== TokenType.Identifier) return null;
+
+                const object =
+                    tokens[i - 2]?.type === TokenType.Dot &&
+                    tokens[i - 3]?.type === TokenType.Identifier
+                        ? tokens[i - 3]
+                        : null;
+
+                return { callee, object, openParen: token, argumentIndex };
+            }
+        }
+    }
+
+    return null;
+}
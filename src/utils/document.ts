@@ -3,10 +3,17 @@ import { Lexer } from "../lexer/lexer";
 import { Parser, ParseError } from "../parser/parser";
 import { Program } from "../parser/ast";
 import { Scope, ScopeAnalyzer } from "../analysis/scope";
+import { FlowTypes } from "../analysis/flow";
+
+export type ImportResolver = (
+    fromUri: vscode.Uri,
+    name: string
+) => Scope | null;
 
 export interface ParseResult {
     program: Program;
     scope: Scope;
+    types: FlowTypes;
     errors: ParseError[];
     comments: any[]; 
     version: number;
@@ -14,6 +21,11 @@ export interface ParseResult {
 
 export class DocumentManager {
     private cache: Map<string, ParseResult> = new Map();
+    private importResolver: ImportResolver | null = null;
+
+    setImportResolver(resolver: ImportResolver): void {
+        this.importResolver = resolver;
+    }
 
     parse(document: vscode.TextDocument): ParseResult {
         const uri = document.uri.toString();
@@ -25,30 +37,40 @@ export class DocumentManager {
             return cached;
         }
 
+        const result = this.parseText(
+            document.getText(),
+            version,
+            document.uri
+        );
+
         
-        const text = document.getText();
+        this.cache.set(uri, result);
+
+        return result;
+    }
+
+    parseText(text: string, version = 0, uri?: vscode.Uri): ParseResult {
         const lexer = new Lexer(text);
         const tokens = lexer.tokenize();
 
-        const parser = new Parser(tokens);
+        const parser = new Parser(tokens, text);
         const program = parser.parse();
         const errors = parser.getErrors();
 
-        const scopeAnalyzer = new ScopeAnalyzer();
+        const resolver = this.importResolver;
+        const scopeAnalyzer = new ScopeAnalyzer(
+            uri && resolver ? name => resolver(uri, name) : undefined
+        );
         const scope = scopeAnalyzer.analyze(program);
 
-        const result: ParseResult = {
+        return {
             program,
             scope,
+            types: scopeAnalyzer.getFlowTypes(),
             errors,
             comments: parser.comments, 
             version,
         };
-
-        
-        this.cache.set(uri, result);
-
-        return result;
     }
 
     clear(document: vscode.TextDocument): void {
@@ -0,0 +1,11 @@
+import * as path from "path";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+    test: {
+        include: ["src/__tests__/**/*.test.ts"],
+        alias: {
+            vscode: path.resolve(__dirname, "src/__tests__/vscode.ts"),
+        },
+    },
+});